@@ -2,6 +2,9 @@ import { useState } from "react"
 import DatePickerBase from "./components/DatePickerBase"
 import DatePickerRange from "./components/DatePickerRange"
 import DatePickerMonth from "./components/DatePickerMonth"
+import DatePickerWeek from "./components/DatePickerWeek"
+import DatePickerQuarter from "./components/DatePickerQuarter"
+import ThemeProvider, { darkTheme } from "./components/ThemeProvider"
 
 export default function App() {
   const [value, setValue] = useState<Date | null>(null)
@@ -10,6 +13,9 @@ export default function App() {
     null,
   ])
   const [monthValue, setMonthValue] = useState<Date | null>(null)
+  const [weekValue, setWeekValue] = useState<Date | null>(null)
+  const [quarterValue, setQuarterValue] = useState<Date | null>(null)
+  const [darkValue, setDarkValue] = useState<Date | null>(null)
 
   return (
     <main
@@ -115,6 +121,88 @@ export default function App() {
             placeholder="Select month"
           />
         </article>
+        <article
+          style={{
+            background: "#fff",
+            borderRadius: 12,
+            boxShadow: "0 8px 16px rgba(15,23,42,0.08)",
+            padding: 24,
+            display: "flex",
+            flexDirection: "column",
+            gap: 12,
+            minHeight: 180,
+          }}
+        >
+          <header>
+            <h3 style={{ margin: 0, fontSize: 18, color: "rgba(0,0,0,0.88)" }}>
+              DatePickerWeek
+            </h3>
+            <p style={{ margin: "4px 0 0", color: "rgba(0,0,0,0.7)" }}>
+              Выбор недели
+            </p>
+          </header>
+          <DatePickerWeek
+            value={weekValue}
+            onChange={setWeekValue}
+            weekNumbering="iso"
+            placeholder="Select week"
+          />
+        </article>
+        <article
+          style={{
+            background: "#fff",
+            borderRadius: 12,
+            boxShadow: "0 8px 16px rgba(15,23,42,0.08)",
+            padding: 24,
+            display: "flex",
+            flexDirection: "column",
+            gap: 12,
+            minHeight: 180,
+          }}
+        >
+          <header>
+            <h3 style={{ margin: 0, fontSize: 18, color: "rgba(0,0,0,0.88)" }}>
+              DatePickerQuarter
+            </h3>
+            <p style={{ margin: "4px 0 0", color: "rgba(0,0,0,0.7)" }}>
+              Выбор квартала финансового года
+            </p>
+          </header>
+          <DatePickerQuarter
+            value={quarterValue}
+            onChange={setQuarterValue}
+            fiscalYearStartMonth={3}
+            placeholder="Select quarter"
+          />
+        </article>
+        <article
+          style={{
+            background: darkTheme.colorBgContainer,
+            borderRadius: 12,
+            boxShadow: "0 8px 16px rgba(15,23,42,0.08)",
+            padding: 24,
+            display: "flex",
+            flexDirection: "column",
+            gap: 12,
+            minHeight: 180,
+          }}
+        >
+          <header>
+            <h3 style={{ margin: 0, fontSize: 18, color: darkTheme.colorText }}>
+              ThemeProvider
+            </h3>
+            <p style={{ margin: "4px 0 0", color: darkTheme.colorTextSecondary }}>
+              Тёмная тема
+            </p>
+          </header>
+          <ThemeProvider theme={darkTheme}>
+            <DatePickerBase
+              value={darkValue}
+              onChange={setDarkValue}
+              placeholder="Select date"
+            />
+          </ThemeProvider>
+        </article>
       </div>
     </main>
   )
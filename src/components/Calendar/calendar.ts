@@ -0,0 +1,246 @@
+import { useEffect, useRef, useState } from "react"
+import type React from "react"
+import {
+  add,
+  endOfDay,
+  endOfWeek,
+  getISOWeek,
+  getWeek,
+  isAfter,
+  isBefore,
+  startOfDay,
+  startOfWeek,
+} from "date-fns"
+import type { Day, Duration, Locale } from "date-fns"
+import { gregorianAdapter } from "./dateAdapter"
+import type { DateAdapter } from "./dateAdapter"
+
+/** One cell of a day grid. */
+export type CalendarDay = {
+  date: Date
+  /** False for the days of neighbouring months that pad the first and last week. */
+  inMonth: boolean
+  today: boolean
+  selected: boolean
+  disabled: boolean
+  /** The one cell of the grid reachable with Tab. */
+  tabbable: boolean
+  hovered: boolean
+}
+
+export type CalendarMonth = {
+  month: Date
+  weeks: CalendarDay[][]
+}
+
+/** Header buttons that would move the panel out of the min/max bounds. */
+export type CalendarNavigation = {
+  previousYear: boolean
+  previousMonth: boolean
+  nextMonth: boolean
+  nextYear: boolean
+}
+
+/** What a `cellRender` callback is told about the cell it draws. */
+export type CalendarCellInfo = {
+  /** "day" for day grids, otherwise the period one cell stands for. */
+  type: "day" | "month" | "quarter" | "year" | "decade"
+  selected: boolean
+  /** Strictly between the two ends of a range. */
+  inRange: boolean
+  rangeStart: boolean
+  rangeEnd: boolean
+  today: boolean
+  /** A padding cell from the neighbouring month or panel. */
+  outside: boolean
+  disabled: boolean
+  /** The content the picker would render by itself. */
+  originNode: React.ReactNode
+}
+
+/**
+ * Replaces the content of a cell. The cell button, and with it the
+ * selection styling, stays the picker's own.
+ */
+export type CalendarCellRender = (
+  date: Date,
+  info: CalendarCellInfo
+) => React.ReactNode
+
+export function monthMatrix(
+  anchor: Date,
+  weekStartsOn: Day,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  const start = startOfWeek(adapter.startOfMonth(anchor), { weekStartsOn })
+  const end = endOfWeek(adapter.endOfMonth(anchor), { weekStartsOn })
+  const days: Date[] = []
+  let cur = start
+  while (cur <= end) {
+    days.push(cur)
+    cur = add(cur, { days: 1 })
+  }
+  return days
+}
+
+/**
+ * "locale" numbers weeks from the locale's first day of the week,
+ * "iso" uses ISO-8601 weeks (Monday first, week 1 holds January 4th).
+ */
+export type WeekNumbering = "locale" | "iso"
+
+/** First day of the grid rows; ISO weeks always start on Monday. */
+export function rowWeekStartsOn(numbering: WeekNumbering, weekStartsOn: Day) {
+  return numbering === "iso" ? 1 : weekStartsOn
+}
+
+/** Number of the week starting on `weekStart`. */
+export function weekNumberOf(
+  weekStart: Date,
+  numbering: WeekNumbering,
+  locale: Locale,
+  weekStartsOn: Day
+) {
+  return numbering === "iso"
+    ? getISOWeek(weekStart)
+    : getWeek(weekStart, { locale, weekStartsOn })
+}
+
+/** Reorders weekday labels that start on `from` to start on `to`. */
+export function rotateWeekDays(weekDays: string[], from: Day, to: Day) {
+  const shift = (to - from + 7) % 7
+  return [...weekDays.slice(shift), ...weekDays.slice(0, shift)]
+}
+
+export function chunkWeeks<T>(days: T[]) {
+  const weeks: T[][] = []
+  for (let i = 0; i < days.length; i += 7) {
+    weeks.push(days.slice(i, i + 7))
+  }
+  return weeks
+}
+
+export function moveActiveDate(
+  date: Date,
+  key: string,
+  shiftKey: boolean,
+  weekStartsOn: Day,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  switch (key) {
+    case "ArrowLeft":
+      return add(date, { days: -1 })
+    case "ArrowRight":
+      return add(date, { days: 1 })
+    case "ArrowUp":
+      return add(date, { weeks: -1 })
+    case "ArrowDown":
+      return add(date, { weeks: 1 })
+    case "PageUp":
+      return adapter.add(date, shiftKey ? { years: -1 } : { months: -1 })
+    case "PageDown":
+      return adapter.add(date, shiftKey ? { years: 1 } : { months: 1 })
+    case "Home":
+      return startOfWeek(date, { weekStartsOn })
+    case "End":
+      return add(startOfWeek(date, { weekStartsOn }), { days: 6 })
+    default:
+      return null
+  }
+}
+
+export function isOutOfRange(date: Date, minDate?: Date, maxDate?: Date) {
+  return (
+    (!!minDate && isBefore(date, startOfDay(minDate))) ||
+    (!!maxDate && isAfter(date, endOfDay(maxDate)))
+  )
+}
+
+export function isPeriodOutOfRange(
+  start: Date,
+  end: Date,
+  minDate?: Date,
+  maxDate?: Date
+) {
+  return (
+    (!!minDate && isBefore(end, startOfDay(minDate))) ||
+    (!!maxDate && isAfter(start, endOfDay(maxDate)))
+  )
+}
+
+export function isMonthOutOfRange(
+  month: Date,
+  minDate?: Date,
+  maxDate?: Date,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  return isPeriodOutOfRange(
+    adapter.startOfMonth(month),
+    adapter.endOfMonth(month),
+    minDate,
+    maxDate
+  )
+}
+
+export function clampDate(date: Date, minDate?: Date, maxDate?: Date) {
+  if (minDate && isBefore(date, startOfDay(minDate))) return startOfDay(minDate)
+  if (maxDate && isAfter(date, endOfDay(maxDate))) return startOfDay(maxDate)
+  return date
+}
+
+/**
+ * State shared by every calendar: the panel on screen, the cell holding the
+ * roving tabindex and the hovered cell. `gridRef` marks the element whose
+ * tabbable cell `focusActiveCell` focuses. `shiftPanel` moves by months and
+ * years of `adapter`'s calendar.
+ */
+export function useCalendarState(
+  defaultDate?: Date | null,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  const gridRef = useRef<HTMLDivElement | null>(null)
+  const focusPendingRef = useRef(false)
+  const [panelMonth, setPanelMonth] = useState<Date>(defaultDate ?? new Date())
+  const [activeDate, setActiveDate] = useState<Date>(
+    startOfDay(defaultDate ?? new Date())
+  )
+  const [hoveredDate, setHoveredDate] = useState<Date | null>(null)
+
+  const focusActiveCell = () =>
+    gridRef.current
+      ?.querySelector<HTMLElement>('[role="gridcell"][tabindex="0"]')
+      ?.focus()
+
+  // Runs after every render so a focus requested together with opening the
+  // popup or moving the panel lands on the cell that render produced.
+  useEffect(() => {
+    if (!focusPendingRef.current) return
+    focusPendingRef.current = false
+    focusActiveCell()
+  })
+
+  return {
+    gridRef,
+    panelMonth,
+    setPanelMonth,
+    activeDate,
+    setActiveDate,
+    hoveredDate,
+    setHoveredDate,
+    focusActiveCell,
+    /** Focuses the tabbable cell once the next render is committed. */
+    requestFocus: (focus = true) => {
+      focusPendingRef.current = focus
+    },
+    /** Shows `date` and makes it the active cell. */
+    showDate: (date: Date) => {
+      setPanelMonth(date)
+      setActiveDate(date)
+      setHoveredDate(null)
+    },
+    shiftPanel: (duration: Duration) => {
+      setPanelMonth((month) => adapter.add(month, duration))
+      setActiveDate((date) => adapter.add(date, duration))
+    },
+  }
+}
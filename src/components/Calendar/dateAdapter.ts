@@ -0,0 +1,441 @@
+import {
+  add,
+  addDays,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  getDate,
+  getMonth,
+  getYear,
+  isSameMonth,
+  isSameYear,
+  parse,
+  setMonth,
+  setYear,
+  startOfDecade,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from "date-fns"
+import type { Duration, FormatOptions, Locale } from "date-fns"
+
+/** date-fns options, e.g. `locale` and the week settings of week tokens. */
+export type DateAdapterFormatOptions = Omit<FormatOptions, "locale"> & {
+  locale?: Locale
+}
+
+/**
+ * The calendar arithmetic behind the grids and panels. Dates stay plain
+ * `Date` instants; an adapter decides how they split into years, months and
+ * days. Months are numbered from 0 and every year has 12 of them. Patterns
+ * use date-fns tokens.
+ */
+export type DateAdapter = {
+  /** Adds years and months in this calendar; weeks, days and time as is. */
+  add: (date: Date, duration: Duration) => Date
+  startOfMonth: (date: Date) => Date
+  endOfMonth: (date: Date) => Date
+  startOfQuarter: (date: Date) => Date
+  endOfQuarter: (date: Date) => Date
+  startOfYear: (date: Date) => Date
+  endOfYear: (date: Date) => Date
+  startOfDecade: (date: Date) => Date
+  isSameMonth: (a: Date, b: Date) => boolean
+  isSameYear: (a: Date, b: Date) => boolean
+  getYear: (date: Date) => number
+  getMonth: (date: Date) => number
+  getDate: (date: Date) => number
+  setYear: (date: Date, year: number) => Date
+  setMonth: (date: Date, month: number) => Date
+  format: (
+    date: Date,
+    pattern: string,
+    options?: DateAdapterFormatOptions
+  ) => string
+  /** Like date-fns `parse`: an invalid date when `text` does not match. */
+  parse: (
+    text: string,
+    pattern: string,
+    referenceDate: Date,
+    options?: DateAdapterFormatOptions
+  ) => Date
+}
+
+/** The Gregorian calendar, as date-fns implements it. The default. */
+export const gregorianAdapter: DateAdapter = {
+  add: (date, duration) => add(date, duration),
+  startOfMonth: (date) => startOfMonth(date),
+  endOfMonth: (date) => endOfMonth(date),
+  startOfQuarter: (date) => startOfQuarter(date),
+  endOfQuarter: (date) => endOfQuarter(date),
+  startOfYear: (date) => startOfYear(date),
+  endOfYear: (date) => endOfYear(date),
+  startOfDecade: (date) => startOfDecade(date),
+  isSameMonth: (a, b) => isSameMonth(a, b),
+  isSameYear: (a, b) => isSameYear(a, b),
+  getYear: (date) => getYear(date),
+  getMonth: (date) => getMonth(date),
+  getDate: (date) => getDate(date),
+  setYear: (date, year) => setYear(date, year),
+  setMonth: (date, month) => setMonth(date, month),
+  format: (date, pattern, options) => format(date, pattern, options),
+  parse: (text, pattern, referenceDate, options) =>
+    parse(text, pattern, referenceDate, options),
+}
+
+type CalendarFields = { year: number; month: number; day: number }
+
+type PatternToken = { literal: string } | { token: string }
+
+const longFormatWidths = ["short", "medium", "long", "full"] as const
+
+/**
+ * Splits a date-fns pattern into tokens and literal text, expanding the
+ * locale's long formats (`P`, `PPpp`, `p`, ...) on the way.
+ */
+function tokenize(pattern: string, locale?: Locale): PatternToken[] {
+  const tokens: PatternToken[] = []
+  const parts = /'(?:[^']|'')*'?|P+p*|([A-Za-z])\1*o?|[^A-Za-z']+/g
+  for (const [part] of pattern.matchAll(parts)) {
+    if (part.startsWith("'")) {
+      const text = part.replace(/^'|'$/g, "").replace(/''/g, "'")
+      tokens.push({ literal: part === "''" ? "'" : text })
+    } else if (!/^[A-Za-z]/.test(part)) {
+      tokens.push({ literal: part })
+    } else if (/^[Pp]/.test(part) && locale?.formatLong) {
+      tokens.push(...tokenize(expandLongFormat(part, locale), locale))
+    } else {
+      tokens.push({ token: part })
+    }
+  }
+  return tokens
+}
+
+function expandLongFormat(token: string, locale: Locale) {
+  const { date, time, dateTime } = locale.formatLong
+  const [, dateRun, timeRun] = /^(P*)(p*)$/.exec(token) ?? ["", "", ""]
+  const width = (run: string) => longFormatWidths[run.length - 1] ?? "full"
+  if (!timeRun) return date({ width: width(dateRun) })
+  if (!dateRun) return time({ width: width(timeRun) })
+  return dateTime({ width: width(dateRun) })
+    .replace("{{date}}", date({ width: width(dateRun) }))
+    .replace("{{time}}", time({ width: width(timeRun) }))
+}
+
+const quarterWidths: Record<number, "abbreviated" | "wide" | "narrow"> = {
+  3: "abbreviated",
+  4: "wide",
+  5: "narrow",
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+const pad = (value: number, length: number) =>
+  String(value).padStart(length, "0")
+
+/**
+ * An adapter for a 12-month calendar of `Intl.DateTimeFormat`, such as
+ * "persian" or "islamic-umalqura". Years, months and days come from the
+ * runtime's calendar data; weekdays and time use date-fns. `parse` reads
+ * numeric fields and month names.
+ */
+export function createIntlDateAdapter(calendar: string): DateAdapter {
+  const fieldFormat = new Intl.DateTimeFormat(
+    `en-US-u-ca-${calendar}-nu-latn`,
+    { year: "numeric", month: "numeric", day: "numeric" }
+  )
+  const nameFormats = new Map<string, Intl.DateTimeFormat>()
+  const fieldCache = new Map<number, CalendarFields>()
+
+  const fieldsOf = (date: Date): CalendarFields => {
+    const time = date.getTime()
+    let fields = fieldCache.get(time)
+    if (!fields) {
+      fields = { year: 0, month: 0, day: 0 }
+      for (const part of fieldFormat.formatToParts(date)) {
+        if (part.type === "year") fields.year = Number(part.value)
+        if (part.type === "month") fields.month = Number(part.value) - 1
+        if (part.type === "day") fields.day = Number(part.value)
+      }
+      if (fieldCache.size > 2000) fieldCache.clear()
+      fieldCache.set(time, fields)
+    }
+    return fields
+  }
+
+  // Average month length, to jump close to a month before walking to it.
+  const reference = new Date(2000, 0, 1)
+  const referenceFields = fieldsOf(reference)
+  const monthLength = (() => {
+    const later = fieldsOf(addDays(reference, 3652))
+    const months =
+      (later.year - referenceFields.year) * 12 +
+      later.month -
+      referenceFields.month
+    return 3652 / months
+  })()
+
+  /** Local midnight of a calendar day; months and days may overflow. */
+  const dateOf = (year: number, month: number, day: number) => {
+    const targetYear = year + Math.floor(month / 12)
+    const targetMonth = ((month % 12) + 12) % 12
+    let guess = reference
+    let fields = referenceFields
+    for (let step = 0; step < 24; step++) {
+      const months =
+        (targetYear - fields.year) * 12 + targetMonth - fields.month
+      if (months === 0) break
+      // Aim at the middle of the month so a rough length still lands in it.
+      guess = addDays(guess, Math.round(months * monthLength) + 15 - fields.day)
+      fields = fieldsOf(guess)
+    }
+    return addDays(guess, day - fields.day)
+  }
+
+  const daysInMonth = (year: number, month: number) =>
+    differenceInCalendarDays(dateOf(year, month + 1, 1), dateOf(year, month, 1))
+
+  const withTimeOf = (date: Date, source: Date) => {
+    const result = new Date(date)
+    result.setHours(
+      source.getHours(),
+      source.getMinutes(),
+      source.getSeconds(),
+      source.getMilliseconds()
+    )
+    return result
+  }
+
+  const addMonths = (date: Date, amount: number) => {
+    if (!amount) return new Date(date)
+    const { year, month, day } = fieldsOf(date)
+    const target = dateOf(year, month + amount, 1)
+    const { year: targetYear, month: targetMonth } = fieldsOf(target)
+    const lastDay = daysInMonth(targetYear, targetMonth)
+    return withTimeOf(addDays(target, Math.min(day, lastDay) - 1), date)
+  }
+
+  const monthName = (
+    date: Date,
+    style: "short" | "long" | "narrow",
+    locale?: Locale
+  ) => {
+    const key = `${locale?.code ?? "en-US"}:${style}`
+    let nameFormat = nameFormats.get(key)
+    if (!nameFormat) {
+      nameFormat = new Intl.DateTimeFormat(
+        `${locale?.code ?? "en-US"}-u-ca-${calendar}`,
+        { month: style }
+      )
+      nameFormats.set(key, nameFormat)
+    }
+    return nameFormat.format(date)
+  }
+  const monthStyle = (token: string) =>
+    token.length === 3 ? "short" : token.length === 5 ? "narrow" : "long"
+
+  const formatToken = (
+    date: Date,
+    token: string,
+    options?: DateAdapterFormatOptions
+  ) => {
+    const locale = options?.locale
+    const { year, month, day } = fieldsOf(date)
+    const quarter = Math.floor(month / 3) + 1
+    if (/^[yMLQd]o$/.test(token)) {
+      const units = { y: "year", M: "month", L: "month", Q: "quarter" } as const
+      const unit = units[token[0] as keyof typeof units] ?? "date"
+      const value = { year, month: month + 1, quarter, date: day }[unit]
+      return locale?.localize.ordinalNumber(value, { unit }) ?? String(value)
+    }
+    switch (token[0]) {
+      case "y":
+        return token === "yy" ? pad(year % 100, 2) : pad(year, token.length)
+      case "M":
+      case "L":
+        return token.length <= 2
+          ? pad(month + 1, token.length)
+          : monthName(date, monthStyle(token), locale)
+      case "Q":
+        if (token.length <= 2) return pad(quarter, token.length)
+        return (
+          locale?.localize.quarter(quarter as 1 | 2 | 3 | 4, {
+            width: quarterWidths[token.length] ?? "wide",
+          }) ?? `Q${quarter}`
+        )
+      case "d":
+        return pad(day, token.length)
+      default:
+        return format(date, token, options)
+    }
+  }
+
+  const startOfMonthOf = (date: Date) => {
+    const { year, month } = fieldsOf(date)
+    return dateOf(year, month, 1)
+  }
+  const quarterStart = (date: Date) => {
+    const { year, month } = fieldsOf(date)
+    return dateOf(year, month - (month % 3), 1)
+  }
+
+  return {
+    add: (date, { years = 0, months = 0, ...rest }) =>
+      add(addMonths(date, years * 12 + months), rest),
+    startOfMonth: startOfMonthOf,
+    endOfMonth: (date) =>
+      endOfDay(addDays(addMonths(startOfMonthOf(date), 1), -1)),
+    startOfQuarter: quarterStart,
+    endOfQuarter: (date) =>
+      endOfDay(addDays(addMonths(quarterStart(date), 3), -1)),
+    startOfYear: (date) => dateOf(fieldsOf(date).year, 0, 1),
+    endOfYear: (date) =>
+      endOfDay(addDays(dateOf(fieldsOf(date).year + 1, 0, 1), -1)),
+    startOfDecade: (date) =>
+      dateOf(Math.floor(fieldsOf(date).year / 10) * 10, 0, 1),
+    isSameMonth: (a, b) => {
+      const first = fieldsOf(a)
+      const second = fieldsOf(b)
+      return first.year === second.year && first.month === second.month
+    },
+    isSameYear: (a, b) => fieldsOf(a).year === fieldsOf(b).year,
+    getYear: (date) => fieldsOf(date).year,
+    getMonth: (date) => fieldsOf(date).month,
+    getDate: (date) => fieldsOf(date).day,
+    setYear: (date, year) => addMonths(date, (year - fieldsOf(date).year) * 12),
+    setMonth: (date, month) => addMonths(date, month - fieldsOf(date).month),
+    format: (date, pattern, options) =>
+      tokenize(pattern, options?.locale)
+        .map((part) =>
+          "literal" in part
+            ? part.literal
+            : formatToken(date, part.token, options)
+        )
+        .join(""),
+    parse: (text, pattern, referenceDate, options) => {
+      const locale = options?.locale
+      const tokens = tokenize(pattern, locale)
+      const parses = (letters: string) =>
+        tokens.some(
+          (part) => "token" in part && letters.includes(part.token[0])
+        )
+      // Nothing calendar-specific, e.g. a week pattern: date-fns can read it.
+      if (!parses("yMLQd")) return parse(text, pattern, referenceDate, options)
+      const fields = {
+        ...fieldsOf(referenceDate),
+        hours: 0,
+        minutes: 0,
+        seconds: 0,
+        pm: undefined as boolean | undefined,
+      }
+      // As in date-fns, units below the parsed ones start over.
+      if (parses("y") && !parses("MLQ")) fields.month = 0
+      if (parses("yMLQ") && !parses("d")) fields.day = 1
+      const setters: ((match: string) => boolean)[] = []
+      let source = ""
+      const numeric = (digits: string, apply: (value: number) => void) => {
+        source += `(\\d{${digits}})`
+        setters.push((match) => (apply(Number(match)), true))
+      }
+      for (const part of tokens) {
+        if ("literal" in part) {
+          source += escapeRegExp(part.literal)
+          continue
+        }
+        const { token } = part
+        switch (token[0]) {
+          case "y":
+            numeric(token === "yy" ? "2" : "1,4", (value) => {
+              fields.year =
+                token === "yy"
+                  ? Math.floor(fields.year / 100) * 100 + value
+                  : value
+            })
+            break
+          case "M":
+          case "L":
+            if (token.length <= 2) {
+              numeric("1,2", (value) => (fields.month = value - 1))
+            } else {
+              const names = Array.from({ length: 12 }, (_, month) =>
+                monthName(
+                  dateOf(fields.year, month, 1),
+                  monthStyle(token),
+                  locale
+                ).toLowerCase()
+              )
+              source += `(${[...names]
+                .sort((a, b) => b.length - a.length)
+                .map(escapeRegExp)
+                .join("|")})`
+              setters.push((match) => {
+                fields.month = names.indexOf(match.toLowerCase())
+                return fields.month >= 0
+              })
+            }
+            break
+          case "Q":
+            numeric("1", (value) => (fields.month = (value - 1) * 3))
+            break
+          case "d":
+            numeric("1,2", (value) => (fields.day = value))
+            break
+          case "H":
+          case "h":
+            numeric("1,2", (value) => (fields.hours = value))
+            break
+          case "m":
+            numeric("1,2", (value) => (fields.minutes = value))
+            break
+          case "s":
+            numeric("1,2", (value) => (fields.seconds = value))
+            break
+          case "a": {
+            const am = format(new Date(2000, 0, 1, 1), token, { locale })
+            const pmText = format(new Date(2000, 0, 1, 13), token, { locale })
+            source += `(${escapeRegExp(am)}|${escapeRegExp(pmText)})`
+            setters.push((match) => {
+              fields.pm = match.toLowerCase() === pmText.toLowerCase()
+              return true
+            })
+            break
+          }
+          default:
+            return new Date(NaN)
+        }
+      }
+      const match = new RegExp(`^${source}$`, "i").exec(text)
+      if (!match || !setters.every((set, index) => set(match[index + 1]))) {
+        return new Date(NaN)
+      }
+      if (fields.pm !== undefined) {
+        fields.hours = (fields.hours % 12) + (fields.pm ? 12 : 0)
+      }
+      const { year, month, day, hours, minutes, seconds } = fields
+      if (
+        month < 0 ||
+        month > 11 ||
+        day < 1 ||
+        day > daysInMonth(year, month) ||
+        hours > 23 ||
+        minutes > 59 ||
+        seconds > 59
+      ) {
+        return new Date(NaN)
+      }
+      const result = dateOf(year, month, day)
+      result.setHours(hours, minutes, seconds, 0)
+      return result
+    },
+  }
+}
+
+/** The Solar Hijri (Jalali) calendar used in Iran and Afghanistan. */
+export const persianAdapter = createIntlDateAdapter("persian")
+
+/** The Umm al-Qura Hijri calendar of Saudi Arabia. */
+export const hijriAdapter = createIntlDateAdapter("islamic-umalqura")
@@ -0,0 +1,78 @@
+export {
+  clampDate,
+  isOutOfRange,
+  isPeriodOutOfRange,
+  rotateWeekDays,
+  rowWeekStartsOn,
+  weekNumberOf,
+} from "./calendar"
+export type {
+  CalendarCellInfo,
+  CalendarCellRender,
+  CalendarDay,
+  CalendarMonth,
+  CalendarNavigation,
+  WeekNumbering,
+} from "./calendar"
+export { useCalendar } from "./useCalendar"
+export type { UseCalendarOptions } from "./useCalendar"
+export { useRangeCalendar } from "./useRangeCalendar"
+export type {
+  RangeCalendarCell,
+  RangeCalendarPanel,
+  RangeCalendarPicker,
+  RangeField,
+  UseRangeCalendarOptions,
+} from "./useRangeCalendar"
+export {
+  fiscalMonthIndex,
+  fiscalYearLabel,
+  fiscalYearOf,
+  startOfFiscalYear,
+  useMonthCalendar,
+} from "./useMonthCalendar"
+export type {
+  CalendarMonthCell,
+  UseMonthCalendarOptions,
+} from "./useMonthCalendar"
+export {
+  fiscalQuarterOf,
+  startOfFiscalQuarter,
+  useQuarterCalendar,
+} from "./useQuarterCalendar"
+export type {
+  CalendarQuarterCell,
+  UseQuarterCalendarOptions,
+} from "./useQuarterCalendar"
+export { usePickerPopup } from "./usePickerPopup"
+export type {
+  PickerOpenChangeReason,
+  PickerPopupProps,
+  PickerSize,
+  PickerStatus,
+  PickerTriggerProps,
+  UsePickerPopupOptions,
+} from "./usePickerPopup"
+export {
+  fromZonedTime,
+  toZonedTime,
+  zonedNow,
+} from "./timeZone"
+export { fromRegister, usePickerField } from "./usePickerField"
+export type {
+  PickerFieldHandle,
+  PickerFieldName,
+  PickerFieldProps,
+  PickerInputValue,
+  PickerRegistration,
+  PickerStringValue,
+  PickerValueProps,
+  UsePickerFieldOptions,
+} from "./usePickerField"
+export {
+  createIntlDateAdapter,
+  gregorianAdapter,
+  hijriAdapter,
+  persianAdapter,
+} from "./dateAdapter"
+export type { DateAdapter, DateAdapterFormatOptions } from "./dateAdapter"
@@ -0,0 +1,89 @@
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(timeZone: string) {
+  let formatter = zoneFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+    zoneFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/** Wall-clock fields of `date` in `timeZone`, as milliseconds of a UTC clock. */
+function zoneWallTime(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {}
+  for (const part of zoneFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value)
+  }
+  // Setting the full date afterwards keeps years below 100 as they are.
+  const wall = new Date(
+    Date.UTC(2000, 0, 1, parts.hour, parts.minute, parts.second)
+  )
+  wall.setUTCFullYear(parts.year, parts.month - 1, parts.day)
+  return wall.getTime() + date.getMilliseconds()
+}
+
+/**
+ * A local date whose fields show the wall clock of `date` in `timeZone`
+ * (an IANA name such as "Asia/Tokyo"). Without a zone `date` is returned
+ * as is.
+ */
+export function toZonedTime(date: Date, timeZone?: string) {
+  if (!timeZone) return date
+  const wall = new Date(zoneWallTime(date, timeZone))
+  const zoned = new Date(
+    2000,
+    0,
+    1,
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds(),
+    wall.getUTCMilliseconds()
+  )
+  zoned.setFullYear(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate()
+  )
+  return zoned
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows the local fields
+ * of `zoned`; the inverse of `toZonedTime`.
+ */
+export function fromZonedTime(zoned: Date, timeZone?: string) {
+  if (!timeZone) return zoned
+  const target = new Date(
+    Date.UTC(
+      2000,
+      0,
+      1,
+      zoned.getHours(),
+      zoned.getMinutes(),
+      zoned.getSeconds(),
+      zoned.getMilliseconds()
+    )
+  )
+  target.setUTCFullYear(zoned.getFullYear(), zoned.getMonth(), zoned.getDate())
+  // Guess with the zone offset at the wall time itself, then correct once
+  // in case that guess crossed a daylight-saving change.
+  const offsetAt = (instant: number) =>
+    zoneWallTime(new Date(instant), timeZone) - instant
+  const guess = target.getTime() - offsetAt(target.getTime())
+  return new Date(target.getTime() - offsetAt(guess))
+}
+
+/** The current wall-clock time in `timeZone`. */
+export function zonedNow(timeZone?: string) {
+  return toZonedTime(new Date(), timeZone)
+}
@@ -0,0 +1,172 @@
+import { useMemo } from "react"
+import type React from "react"
+import { isBefore, isSameDay, startOfDay } from "date-fns"
+import type { Day, Duration } from "date-fns"
+import {
+  chunkWeeks,
+  clampDate,
+  isMonthOutOfRange,
+  isOutOfRange,
+  monthMatrix,
+  moveActiveDate,
+  useCalendarState,
+} from "./calendar"
+import type { CalendarDay, CalendarMonth, CalendarNavigation } from "./calendar"
+import { gregorianAdapter } from "./dateAdapter"
+import type { DateAdapter } from "./dateAdapter"
+
+export type UseCalendarOptions = {
+  weekStartsOn: Day
+  /** Months shown side by side; keyboard moves scroll the whole window. */
+  numberOfMonths?: number
+  minDate?: Date
+  maxDate?: Date
+  /** Extra rule on top of minDate/maxDate. */
+  isDateDisabled?: (date: Date) => boolean
+  isDateSelected?: (date: Date) => boolean
+  /** Called when an enabled day is clicked. */
+  onSelect?: (date: Date) => void
+  /** Month shown before the user navigates. */
+  defaultMonth?: Date | null
+  /** The current day, e.g. in the picker's time zone. Defaults to now. */
+  today?: Date
+  /** Calendar whose months the grids show. Defaults to Gregorian. */
+  adapter?: DateAdapter
+}
+
+const navigationSteps: Record<keyof CalendarNavigation, Duration> = {
+  previousYear: { years: -1 },
+  previousMonth: { months: -1 },
+  nextMonth: { months: 1 },
+  nextYear: { years: 1 },
+}
+
+/**
+ * Headless day grid: the weeks of one or more months with their flags,
+ * roving-tabindex keyboard navigation and prop getters for the grid, its
+ * cells and the header buttons. `gridRef` goes on an element wrapping every
+ * grid so keyboard moves can focus the new active cell.
+ */
+export function useCalendar({
+  weekStartsOn,
+  numberOfMonths = 1,
+  minDate,
+  maxDate,
+  isDateDisabled,
+  isDateSelected,
+  onSelect,
+  defaultMonth,
+  today = new Date(),
+  adapter = gregorianAdapter,
+}: UseCalendarOptions) {
+  const state = useCalendarState(defaultMonth ?? today, adapter)
+  const { panelMonth, activeDate, hoveredDate } = state
+
+  const monthStarts = useMemo(
+    () =>
+      Array.from({ length: numberOfMonths }, (_, i) =>
+        adapter.startOfMonth(adapter.add(panelMonth, { months: i }))
+      ),
+    [panelMonth, numberOfMonths, adapter]
+  )
+  const matrices = useMemo(
+    () => monthStarts.map((month) => monthMatrix(month, weekStartsOn, adapter)),
+    [monthStarts, weekStartsOn, adapter]
+  )
+
+  const isDisabled = (date: Date) =>
+    isOutOfRange(date, minDate, maxDate) || !!isDateDisabled?.(date)
+
+  const lastMonth = monthStarts[monthStarts.length - 1]
+  const isVisible = (date: Date) =>
+    !isBefore(date, monthStarts[0]) &&
+    !isBefore(adapter.endOfMonth(lastMonth), date)
+
+  // Roving tabindex: the active date while it is visible, otherwise the
+  // first day of the first month. Padding days never take focus, so each
+  // date has exactly one tabbable cell.
+  const tabbableDate = isVisible(activeDate) ? activeDate : monthStarts[0]
+
+  const months: CalendarMonth[] = monthStarts.map((month, index) => ({
+    month,
+    weeks: chunkWeeks(
+      matrices[index].map((date): CalendarDay => {
+        const inMonth = adapter.isSameMonth(date, month)
+        const selected = !!isDateSelected?.(date)
+        const disabled = isDisabled(date)
+        return {
+          date,
+          inMonth,
+          today: isSameDay(date, today),
+          selected,
+          disabled,
+          tabbable: inMonth && isSameDay(date, tabbableDate),
+          hovered:
+            !selected &&
+            !disabled &&
+            !!hoveredDate &&
+            isSameDay(date, hoveredDate),
+        }
+      })
+    ),
+  }))
+
+  const isShiftOutOfRange = (month: Date, duration: Duration) =>
+    isMonthOutOfRange(adapter.add(month, duration), minDate, maxDate, adapter)
+  const navigation: CalendarNavigation = {
+    previousYear: isShiftOutOfRange(monthStarts[0], navigationSteps.previousYear),
+    previousMonth: isShiftOutOfRange(monthStarts[0], navigationSteps.previousMonth),
+    nextMonth: isShiftOutOfRange(lastMonth, navigationSteps.nextMonth),
+    nextYear: isShiftOutOfRange(lastMonth, navigationSteps.nextYear),
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const moved = moveActiveDate(
+      activeDate,
+      event.key,
+      event.shiftKey,
+      weekStartsOn,
+      adapter
+    )
+    if (!moved) return
+    event.preventDefault()
+    const next = clampDate(moved, minDate, maxDate)
+    state.requestFocus()
+    state.setActiveDate(next)
+    if (isBefore(next, monthStarts[0])) {
+      state.setPanelMonth(next)
+    } else if (isBefore(adapter.endOfMonth(lastMonth), next)) {
+      state.setPanelMonth(adapter.add(next, { months: 1 - numberOfMonths }))
+    }
+  }
+
+  return {
+    ...state,
+    months,
+    navigation,
+    isDateDisabled: isDisabled,
+    isVisible,
+    getGridProps: () => ({ onKeyDown: handleKeyDown }),
+    getDayProps: (day: CalendarDay) => ({
+      type: "button" as const,
+      role: "gridcell",
+      tabIndex: day.tabbable ? 0 : -1,
+      "aria-selected": day.selected,
+      "aria-disabled": day.disabled || undefined,
+      "aria-current": day.today ? ("date" as const) : undefined,
+      onClick: () => {
+        if (!day.disabled) onSelect?.(startOfDay(day.date))
+      },
+      onFocus: () => {
+        if (day.inMonth) state.setActiveDate(day.date)
+      },
+      onMouseEnter: () => state.setHoveredDate(day.date),
+      onMouseLeave: () => state.setHoveredDate(null),
+    }),
+    getNavButtonProps: (direction: keyof CalendarNavigation) => ({
+      type: "button" as const,
+      disabled: navigation[direction],
+      onClick: () => state.shiftPanel(navigationSteps[direction]),
+    }),
+  }
+}
@@ -0,0 +1,240 @@
+import type React from "react"
+import { isAfter, isBefore } from "date-fns"
+import { isMonthOutOfRange, useCalendarState } from "./calendar"
+import { gregorianAdapter } from "./dateAdapter"
+import type { DateAdapter } from "./dateAdapter"
+
+/** One cell of a month grid. */
+export type CalendarMonthCell = {
+  /** First day of the month. */
+  date: Date
+  /** The current month. */
+  today: boolean
+  selected: boolean
+  disabled: boolean
+  tabbable: boolean
+  hovered: boolean
+}
+
+export type UseMonthCalendarOptions = {
+  /**
+   * Month index (0 = January) the fiscal year starts in. The panel shows
+   * one fiscal year with one fiscal quarter per row.
+   */
+  fiscalYearStartMonth?: number
+  minDate?: Date
+  maxDate?: Date
+  /** Called with the first day of each month; true disables that month. */
+  isMonthDisabled?: (date: Date) => boolean
+  isMonthSelected?: (date: Date) => boolean
+  /** Called with the first day of an enabled month when it is clicked. */
+  onSelect?: (date: Date) => void
+  /** Month made active before the user navigates. */
+  defaultMonth?: Date | null
+  /** The current day, e.g. in the picker's time zone. Defaults to now. */
+  today?: Date
+  /** Calendar whose years and months the grid shows. Defaults to Gregorian. */
+  adapter?: DateAdapter
+}
+
+const monthIndexes = Array.from({ length: 12 }, (_, idx) => idx)
+const monthsPerRow = 3
+
+/** The fiscal year `date` falls in, named after the calendar year it ends in. */
+export function fiscalYearOf(
+  date: Date,
+  startMonth: number,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  const year = adapter.getYear(date)
+  if (startMonth === 0) return year
+  return year + (adapter.getMonth(date) >= startMonth ? 1 : 0)
+}
+
+/** "2026" for calendar years, "FY27" for fiscal years. */
+export function fiscalYearLabel(fiscalYear: number, startMonth: number) {
+  if (startMonth === 0) return String(fiscalYear)
+  return `FY${String(fiscalYear % 100).padStart(2, "0")}`
+}
+
+export function startOfFiscalYear(
+  fiscalYear: number,
+  startMonth: number,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  const year = startMonth === 0 ? fiscalYear : fiscalYear - 1
+  const yearStart = adapter.setYear(adapter.startOfYear(new Date()), year)
+  return adapter.setMonth(yearStart, startMonth)
+}
+
+/** Position of `date`'s month in its fiscal year, 0 for the first month. */
+export function fiscalMonthIndex(
+  date: Date,
+  startMonth: number,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  return (adapter.getMonth(date) - startMonth + 12) % 12
+}
+
+function moveActiveMonth(
+  month: Date,
+  key: string,
+  shiftKey: boolean,
+  fiscalYearStartMonth: number,
+  adapter: DateAdapter
+) {
+  const column =
+    fiscalMonthIndex(month, fiscalYearStartMonth, adapter) % monthsPerRow
+  switch (key) {
+    case "ArrowLeft":
+      return adapter.add(month, { months: -1 })
+    case "ArrowRight":
+      return adapter.add(month, { months: 1 })
+    case "ArrowUp":
+      return adapter.add(month, { months: -monthsPerRow })
+    case "ArrowDown":
+      return adapter.add(month, { months: monthsPerRow })
+    case "PageUp":
+      return adapter.add(month, { years: shiftKey ? -10 : -1 })
+    case "PageDown":
+      return adapter.add(month, { years: shiftKey ? 10 : 1 })
+    case "Home":
+      return adapter.add(month, { months: -column })
+    case "End":
+      return adapter.add(month, { months: monthsPerRow - 1 - column })
+    default:
+      return null
+  }
+}
+
+function clampMonth(
+  month: Date,
+  adapter: DateAdapter,
+  minDate?: Date,
+  maxDate?: Date
+) {
+  if (minDate && isBefore(month, adapter.startOfMonth(minDate))) {
+    return adapter.startOfMonth(minDate)
+  }
+  if (maxDate && isAfter(month, adapter.startOfMonth(maxDate))) {
+    return adapter.startOfMonth(maxDate)
+  }
+  return month
+}
+
+/**
+ * Headless month grid showing one (fiscal) year: rows of months with their
+ * flags, keyboard navigation and prop getters for the grid, its cells and
+ * the year buttons.
+ */
+export function useMonthCalendar({
+  fiscalYearStartMonth = 0,
+  minDate,
+  maxDate,
+  isMonthDisabled,
+  isMonthSelected,
+  onSelect,
+  defaultMonth,
+  today = new Date(),
+  adapter = gregorianAdapter,
+}: UseMonthCalendarOptions) {
+  const state = useCalendarState(
+    adapter.startOfMonth(defaultMonth ?? today),
+    adapter
+  )
+  const { panelMonth, activeDate, hoveredDate } = state
+  const fiscalYear = fiscalYearOf(panelMonth, fiscalYearStartMonth, adapter)
+  const fiscalYearStart = startOfFiscalYear(
+    fiscalYear,
+    fiscalYearStartMonth,
+    adapter
+  )
+
+  const isDisabled = (month: Date) =>
+    isMonthOutOfRange(month, minDate, maxDate, adapter) ||
+    !!isMonthDisabled?.(month)
+
+  // Roving tabindex: the active month when it is on the visible year,
+  // otherwise the first month of that year.
+  const tabbableIndex =
+    fiscalYearOf(activeDate, fiscalYearStartMonth, adapter) === fiscalYear
+      ? fiscalMonthIndex(activeDate, fiscalYearStartMonth, adapter)
+      : 0
+
+  const cells = monthIndexes.map((index): CalendarMonthCell => {
+    const date = adapter.add(fiscalYearStart, { months: index })
+    const selected = !!isMonthSelected?.(date)
+    const disabled = isDisabled(date)
+    return {
+      date,
+      today: adapter.isSameMonth(date, today),
+      selected,
+      disabled,
+      tabbable: index === tabbableIndex,
+      hovered:
+        !selected &&
+        !disabled &&
+        !!hoveredDate &&
+        adapter.isSameMonth(date, hoveredDate),
+    }
+  })
+  const rows: CalendarMonthCell[][] = []
+  for (let i = 0; i < cells.length; i += monthsPerRow) {
+    rows.push(cells.slice(i, i + monthsPerRow))
+  }
+
+  const navigation = {
+    previousYear:
+      !!minDate &&
+      fiscalYear - 1 < fiscalYearOf(minDate, fiscalYearStartMonth, adapter),
+    nextYear:
+      !!maxDate &&
+      fiscalYear + 1 > fiscalYearOf(maxDate, fiscalYearStartMonth, adapter),
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const moved = moveActiveMonth(
+      activeDate,
+      event.key,
+      event.shiftKey,
+      fiscalYearStartMonth,
+      adapter
+    )
+    if (!moved) return
+    event.preventDefault()
+    const next = clampMonth(moved, adapter, minDate, maxDate)
+    state.requestFocus()
+    state.setActiveDate(next)
+    state.setPanelMonth(next)
+  }
+
+  return {
+    ...state,
+    /** The fiscal year on screen; the calendar year when it starts in January. */
+    fiscalYear,
+    rows,
+    navigation,
+    /** Shows the year of `month` and makes that month active. */
+    showMonth: (month: Date) => state.showDate(adapter.startOfMonth(month)),
+    getGridProps: () => ({ onKeyDown: handleKeyDown }),
+    getMonthProps: (cell: CalendarMonthCell) => ({
+      type: "button" as const,
+      role: "gridcell",
+      tabIndex: cell.tabbable ? 0 : -1,
+      "aria-selected": cell.selected,
+      "aria-disabled": cell.disabled || undefined,
+      onClick: () => {
+        if (!cell.disabled) onSelect?.(cell.date)
+      },
+      onFocus: () => state.setActiveDate(cell.date),
+      onMouseEnter: () => state.setHoveredDate(cell.date),
+      onMouseLeave: () => state.setHoveredDate(null),
+    }),
+    getNavButtonProps: (direction: keyof typeof navigation) => ({
+      type: "button" as const,
+      disabled: navigation[direction],
+      onClick: () =>
+        state.shiftPanel({ years: direction === "previousYear" ? -1 : 1 }),
+    }),
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react"
+import type React from "react"
+import { format, formatISO, isValid, parse } from "date-fns"
+import { fromZonedTime, toZonedTime } from "./timeZone"
+
+/** Form field names of a picker: one, or one per end of a range. */
+export type PickerFieldName = string | [string, string]
+
+/**
+ * What a picker's `ref` receives: a form-control-like object whose `value`
+ * can be read and assigned.
+ */
+export type PickerFieldHandle<T, N extends PickerFieldName = string> = {
+  readonly name: N | undefined
+  /** The current value; assigning to it changes it like a pick does. */
+  value: T
+  focus: () => void
+  blur: () => void
+}
+
+export type PickerFieldProps<T, N extends PickerFieldName = string> = {
+  /**
+   * Submits the value with the surrounding form: each date goes into a
+   * hidden input of this name, as text made by `serialize`.
+   */
+  name?: N
+  /** Value while `value` is not controlled; a form reset restores it. */
+  defaultValue?: T
+  /** Blocks form submission while a date is missing. */
+  required?: boolean
+  /** Text submitted for a date. Defaults to ISO 8601. */
+  serialize?: (date: Date) => string
+  /**
+   * Receives a `PickerFieldHandle`, which can be read, assigned and focused.
+   * `onChange` gets the value rather than a change event, so connect
+   * react-hook-form's `register` through `fromRegister`.
+   */
+  ref?: React.Ref<PickerFieldHandle<T, N>>
+}
+
+/** `T` with every date replaced by its text, as `valueFormat` values are. */
+export type PickerStringValue<T> = T extends Date
+  ? string
+  : T extends readonly unknown[]
+    ? { [K in keyof T]: PickerStringValue<T[K]> }
+    : T
+
+/**
+ * `value`, `defaultValue`, `onChange` and the `ref` handle work with dates,
+ * or with strings once `valueFormat` is set. `onChange` also gets the value
+ * as displayed, `Text`.
+ */
+export type PickerValueProps<T, Text, N extends PickerFieldName = string> =
+  | ({
+      valueFormat?: undefined
+      value?: T
+      onChange?: (value: T, text: Text) => void
+    } & PickerFieldProps<T, N>)
+  | ({
+      /**
+       * date-fns pattern of string values, e.g. "yyyy-MM-dd". Strings are
+       * read as wall-clock dates in the picker's time zone.
+       */
+      valueFormat: string
+      value?: PickerStringValue<T>
+      onChange?: (value: PickerStringValue<T>, text: Text) => void
+    } & PickerFieldProps<PickerStringValue<T>, N>)
+
+/** What react-hook-form's `register(name)` returns, as far as pickers use it. */
+export type PickerRegistration = {
+  name: string
+  onChange: (event: {
+    target: { name: string; value: unknown }
+    type: string
+  }) => unknown
+  ref: (instance: unknown) => void
+  disabled?: boolean
+}
+
+/**
+ * Props that connect a picker to react-hook-form's `register`, as in
+ * `<DatePickerBase {...fromRegister(register("due"))} />`. The form gets
+ * every new value as a change event and reads, assigns and focuses it
+ * through the `ref` handle.
+ */
+export function fromRegister({
+  name,
+  onChange,
+  ref,
+  disabled,
+}: PickerRegistration) {
+  return {
+    name,
+    disabled,
+    ref,
+    onChange: (value: unknown) => {
+      onChange({ target: { name, value }, type: "change" })
+    },
+  }
+}
+
+/** A value as passed to a picker: dates, or strings in `valueFormat`. */
+export type PickerInputValue<T> = T | PickerStringValue<T>
+
+export type UsePickerFieldOptions<T, Text, N extends PickerFieldName = string> =
+  Omit<PickerFieldProps<PickerInputValue<T>, N>, "ref"> & {
+    ref?: React.Ref<PickerFieldHandle<PickerInputValue<T>, N>>
+    /** Controlled value; `undefined` leaves the value to the picker. */
+    value: PickerInputValue<T> | undefined
+    valueFormat?: string
+    /** IANA zone whose wall clock the picker shows. */
+    timeZone?: string
+    /** Value without any dates, for pickers without `defaultValue`. */
+    emptyValue: T
+    onChange?: (value: PickerInputValue<T>, text: Text) => void
+    /** The value as displayed, passed to `onChange`. */
+    formatText: (value: T) => Text
+    /** The dates `value` is submitted as, in order. */
+    toDates: (value: T) => (Date | null)[]
+    /** Dates, by position, that may stay empty even when `required`. */
+    allowEmpty?: readonly boolean[]
+    /** Element that takes focus for the field, e.g. the trigger input. */
+    getFocusTarget: () => HTMLElement | null
+  }
+
+// Visually hidden, but not `type="hidden"`, which the browser would leave
+// out of `required` validation. Sits at the bottom edge of the picker so
+// the validation message points at the trigger.
+const hiddenInputStyle: React.CSSProperties = {
+  position: "absolute",
+  bottom: 0,
+  left: 0,
+  width: 1,
+  height: 1,
+  padding: 0,
+  border: 0,
+  opacity: 0,
+  pointerEvents: "none",
+}
+
+/** Applies `map` to every date or string in a value, keeping its shape. */
+function mapValue(
+  value: unknown,
+  map: (item: Date | string) => Date | string | null
+): unknown {
+  if (Array.isArray(value)) return value.map((item) => mapValue(item, map))
+  return value === null || value === undefined ? value : map(value as Date)
+}
+
+/** Wall-clock dates in `timeZone` for a value as passed to a picker. */
+function readValue(value: unknown, valueFormat?: string, timeZone?: string) {
+  if (!valueFormat && !timeZone) return value
+  return mapValue(value, (item) => {
+    if (typeof item !== "string") return toZonedTime(item, timeZone)
+    const parsed = parse(item, valueFormat ?? "", new Date())
+    return isValid(parsed) ? parsed : null
+  })
+}
+
+/** The value a picker emits for wall-clock dates in `timeZone`. */
+function writeValue(value: unknown, valueFormat?: string, timeZone?: string) {
+  if (!valueFormat && !timeZone) return value
+  return mapValue(value, (date) =>
+    valueFormat
+      ? format(date, valueFormat)
+      : fromZonedTime(date as Date, timeZone)
+  )
+}
+
+const isSameDateList = (a: (Date | null)[], b: (Date | null)[]) =>
+  a.length === b.length &&
+  a.every((date, index) => date?.getTime() === b[index]?.getTime())
+
+/**
+ * Value and form integration of a picker. The value is controlled by
+ * `value` or kept here, starting at `defaultValue`, and handed to the
+ * picker as wall-clock dates in `timeZone`; `setValue` takes those back.
+ * `renderInputs` renders the inputs a native form submits, validates and
+ * resets; `ref` gets a handle to the value.
+ */
+export function usePickerField<T, Text, N extends PickerFieldName = string>({
+  name,
+  defaultValue,
+  required = false,
+  serialize = formatISO,
+  ref,
+  value: valueProp,
+  valueFormat,
+  timeZone,
+  emptyValue,
+  onChange,
+  formatText,
+  toDates,
+  allowEmpty,
+  getFocusTarget,
+}: UsePickerFieldOptions<T, Text, N>) {
+  const [valueState, setValueState] = useState<PickerInputValue<T>>(
+    defaultValue ?? emptyValue
+  )
+  const controlled = valueProp !== undefined
+  const inputValue = controlled ? valueProp : valueState
+  const value = useMemo(
+    () => readValue(inputValue, valueFormat, timeZone) as T,
+    [inputValue, valueFormat, timeZone]
+  )
+  const inputRef = useRef<HTMLInputElement | null>(null)
+
+  /** Changes the value: kept here unless controlled, and reported. */
+  const setValue = (next: T) => {
+    const output = writeValue(next, valueFormat, timeZone) as T
+    if (!controlled) setValueState(output)
+    onChange?.(output, formatText(next))
+  }
+
+  const reset = () => {
+    const initial = readValue(defaultValue ?? emptyValue, valueFormat, timeZone)
+    if (!isSameDateList(toDates(value), toDates(initial as T))) {
+      setValue(initial as T)
+    }
+  }
+
+  // The handle and the reset listener outlive renders, so they read the
+  // latest state through this ref.
+  const latest = {
+    name,
+    inputValue,
+    setInputValue: (next: PickerInputValue<T>) =>
+      setValue(readValue(next, valueFormat, timeZone) as T),
+    reset,
+    getFocusTarget,
+  }
+  const latestRef = useRef(latest)
+  useLayoutEffect(() => {
+    latestRef.current = latest
+  })
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      get name() {
+        return latestRef.current.name
+      },
+      get value() {
+        return latestRef.current.inputValue
+      },
+      set value(next: PickerInputValue<T>) {
+        latestRef.current.setInputValue(next)
+      },
+      focus: () => latestRef.current.getFocusTarget()?.focus(),
+      blur: () => latestRef.current.getFocusTarget()?.blur(),
+    }),
+    []
+  )
+
+  useEffect(() => {
+    const form = inputRef.current?.form
+    if (!form) return
+    const handleReset = () => latestRef.current.reset()
+    form.addEventListener("reset", handleReset)
+    return () => form.removeEventListener("reset", handleReset)
+  }, [])
+
+  return {
+    value,
+    setValue,
+    /** One input per date, paired with the names of a range. */
+    renderInputs: () => {
+      const dates = toDates(value)
+      const entries = Array.isArray(name)
+        ? dates.map((date, index) => [name[index], date] as const)
+        : (dates.length > 0 ? dates : [null]).map(
+            (date) => [name as string | undefined, date] as const
+          )
+      return entries.map(([fieldName, date], index) => (
+        <input
+          key={index}
+          ref={index === 0 ? inputRef : undefined}
+          name={fieldName}
+          value={date ? serialize(fromZonedTime(date, timeZone)) : ""}
+          required={required && !allowEmpty?.[index]}
+          tabIndex={-1}
+          aria-hidden="true"
+          autoComplete="off"
+          style={hiddenInputStyle}
+          // Kept in sync by the picker; set only for React's controlled input.
+          onChange={() => {}}
+          // The browser focuses an invalid field; hand that to the picker.
+          onFocus={() => getFocusTarget()?.focus()}
+        />
+      ))
+    },
+  }
+}
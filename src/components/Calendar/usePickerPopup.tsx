@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react"
+import type React from "react"
+import { createPortal } from "react-dom"
+import { themeCssVars, themeVars, useTheme } from "../ThemeProvider"
+import type { PickerTheme } from "../ThemeProvider"
+
+/** Why a picker opened or closed its popup. */
+export type PickerOpenChangeReason =
+  | "trigger"
+  | "outside"
+  | "escape"
+  | "select"
+  | "today"
+
+export type PickerPopupProps = {
+  /** Controls whether the popup is open. */
+  open?: boolean
+  /** Initial open state while `open` is not controlled. */
+  defaultOpen?: boolean
+  /** Called whenever the picker opens or closes its popup. */
+  onOpenChange?: (open: boolean, reason: PickerOpenChangeReason) => void
+  /**
+   * Element the popup is rendered into, e.g. `() => document.body` to escape
+   * `overflow: hidden` ancestors. By default it stays next to the trigger.
+   */
+  getPopupContainer?: (trigger: HTMLElement) => HTMLElement
+}
+
+export type PickerSize = "small" | "middle" | "large"
+
+export type PickerStatus = "error" | "warning"
+
+/** Look and interactivity of a picker's trigger. */
+export type PickerTriggerProps = {
+  /** Greys the trigger out and blocks focusing, opening and clearing it. */
+  disabled?: boolean
+  /** Shows the value but blocks opening, typing and clearing. */
+  readOnly?: boolean
+  /** Scales the trigger and the panel cells. Defaults to "middle". */
+  size?: PickerSize
+  /** Colours the trigger border; "error" also marks it `aria-invalid`. */
+  status?: PickerStatus
+}
+
+/** Tokens each size overrides; "middle" keeps the theme as it is. */
+const sizeTokens: Record<PickerSize, Partial<PickerTheme>> = {
+  small: { cellSize: 24 },
+  middle: {},
+  large: { cellSize: 40, fontSize: 16 },
+}
+
+export type UsePickerPopupOptions = PickerPopupProps &
+  Pick<PickerTriggerProps, "disabled" | "readOnly" | "size"> & {
+    /** Keeps the panel open in the page flow, without a popup layer. */
+    inline?: boolean
+    /** Called after a mouse press outside the picker closed the popup. */
+    onOutsideClick?: () => void
+    /**
+     * Called when a controlled `open` changes without the picker asking for
+     * it, so the picker can prepare or reset its panel.
+     */
+    onOpenSync?: (open: boolean) => void
+  }
+
+type PopupPosition = { top: number; left: number }
+
+const popupGap = 4
+const viewportMargin = 8
+
+/**
+ * Viewport position for a popup below `anchor`, flipped above it when it
+ * only fits there and shifted sideways to stay on screen.
+ */
+function placePopup(
+  anchor: DOMRect,
+  width: number,
+  height: number
+): PopupPosition {
+  const viewportWidth = document.documentElement.clientWidth
+  const viewportHeight = document.documentElement.clientHeight
+  const spaceBelow = viewportHeight - anchor.bottom - popupGap
+  const spaceAbove = anchor.top - popupGap
+  const above = height > spaceBelow && spaceAbove > spaceBelow
+  return {
+    top: above ? anchor.top - popupGap - height : anchor.bottom + popupGap,
+    left: Math.max(
+      viewportMargin,
+      Math.min(anchor.left, viewportWidth - viewportMargin - width)
+    ),
+  }
+}
+
+/**
+ * Open state and popup layer of a picker. `open` is controlled or kept
+ * internally; a mouse press outside the container and the popup closes it
+ * and calls `onOutsideClick`. `renderPopup` wraps the panel in a layer that
+ * is placed to stay in the viewport and, with `getPopupContainer`, is
+ * portalled out of the picker. A read-only picker is not opened by the
+ * user; a disabled one stays closed.
+ */
+export function usePickerPopup({
+  open: openProp,
+  defaultOpen = false,
+  onOpenChange,
+  getPopupContainer,
+  inline = false,
+  onOutsideClick,
+  onOpenSync,
+  disabled = false,
+  readOnly = false,
+  size = "middle",
+}: UsePickerPopupOptions = {}) {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const popupRef = useRef<HTMLDivElement | null>(null)
+  const theme = useTheme()
+  const [openState, setOpenState] = useState(defaultOpen)
+  const [position, setPosition] = useState<PopupPosition | null>(null)
+  const open = inline || (!disabled && (openProp ?? openState))
+  const previousOpenRef = useRef(open)
+  // The open state the picker itself last asked for, if not yet rendered.
+  const requestedOpenRef = useRef<boolean | null>(null)
+
+  // The container element, kept in state so a popup that is open on mount
+  // can be portalled too: the ref is still empty during that first render.
+  const [anchor, setAnchor] = useState<HTMLDivElement | null>(null)
+  const portalContainer =
+    open && !inline && getPopupContainer && anchor
+      ? getPopupContainer(anchor)
+      : null
+
+  const setOpen = useCallback(
+    (next: boolean, reason: PickerOpenChangeReason) => {
+      if (inline || next === open || (next && (disabled || readOnly))) return
+      requestedOpenRef.current = next
+      setOpenState(next)
+      onOpenChange?.(next, reason)
+    },
+    [inline, open, onOpenChange, disabled, readOnly]
+  )
+
+  /** Whether `node` belongs to the picker, its popup included. */
+  const contains = (node: Node | null) =>
+    !!node &&
+    (!!containerRef.current?.contains(node) ||
+      !!popupRef.current?.contains(node))
+
+  useEffect(() => {
+    if (previousOpenRef.current === open) return
+    previousOpenRef.current = open
+    if (requestedOpenRef.current !== open) onOpenSync?.(open)
+    requestedOpenRef.current = null
+  })
+
+  useEffect(() => {
+    if (!open || inline) return
+    const handleMouseDown = (event: MouseEvent) => {
+      const target = event.target as Node
+      if (
+        !containerRef.current?.contains(target) &&
+        !popupRef.current?.contains(target)
+      ) {
+        setOpen(false, "outside")
+        onOutsideClick?.()
+      }
+    }
+    document.addEventListener("mousedown", handleMouseDown)
+    return () => document.removeEventListener("mousedown", handleMouseDown)
+  }, [open, inline, setOpen, onOutsideClick])
+
+  // Measured after every render, as the panel changes size with its view,
+  // and again on scroll and resize. Runs before paint, so the popup never
+  // shows at a stale position.
+  const updatePosition = useCallback(() => {
+    const anchor = containerRef.current
+    const popup = popupRef.current
+    if (!anchor || !popup) return
+    const next = placePopup(
+      anchor.getBoundingClientRect(),
+      popup.offsetWidth,
+      popup.offsetHeight
+    )
+    setPosition((current) =>
+      current && current.top === next.top && current.left === next.left
+        ? current
+        : next
+    )
+  }, [])
+
+  useLayoutEffect(() => {
+    setAnchor(containerRef.current)
+  }, [])
+
+  useLayoutEffect(() => {
+    if (open && !inline) updatePosition()
+  })
+
+  useEffect(() => {
+    if (!open || inline) return
+    window.addEventListener("scroll", updatePosition, true)
+    window.addEventListener("resize", updatePosition)
+    return () => {
+      window.removeEventListener("scroll", updatePosition, true)
+      window.removeEventListener("resize", updatePosition)
+    }
+  }, [open, inline, updatePosition])
+
+  const layerStyle = (): React.CSSProperties => {
+    const layer: React.CSSProperties = {
+      position: portalContainer ? "fixed" : "absolute",
+      zIndex: themeVars.zIndexPopup,
+    }
+    if (!position || !containerRef.current) {
+      return { ...layer, top: "100%", left: 0, marginTop: popupGap }
+    }
+    if (portalContainer) {
+      // A portalled popup leaves the ThemeProvider wrapper and the picker
+      // container, so it takes their tokens and typography along.
+      return {
+        ...layer,
+        ...themeCssVars({ ...theme, ...sizeTokens[size] }),
+        top: position.top,
+        left: position.left,
+        fontFamily: themeVars.fontFamily,
+        fontSize: themeVars.fontSize,
+        color: themeVars.colorText,
+      }
+    }
+    const container = containerRef.current.getBoundingClientRect()
+    return {
+      ...layer,
+      top: position.top - container.top,
+      left: position.left - container.left,
+    }
+  }
+
+  return {
+    containerRef,
+    open,
+    setOpen,
+    contains,
+    /** Custom properties the picker container sets for its size. */
+    sizeVars: themeCssVars(sizeTokens[size]),
+    getTriggerProps: () => ({
+      "aria-haspopup": "dialog" as const,
+      "aria-expanded": open,
+      "aria-disabled": disabled || undefined,
+      "aria-readonly": readOnly || undefined,
+    }),
+    /** Places `panel` in the popup layer; inline panels are returned as is. */
+    renderPopup: (panel: React.ReactNode) => {
+      if (inline) return panel
+      // Until the container is resolved, before the first paint, there is
+      // nowhere to portal to; rendering in place would mount the panel twice.
+      if (getPopupContainer && !anchor) return null
+      const layer = (
+        <div ref={popupRef} style={layerStyle()}>
+          {panel}
+        </div>
+      )
+      return portalContainer ? createPortal(layer, portalContainer) : layer
+    },
+  }
+}
@@ -0,0 +1,236 @@
+import type React from "react"
+import { endOfDay, isAfter, isBefore, startOfDay } from "date-fns"
+import { isPeriodOutOfRange, useCalendarState } from "./calendar"
+import { gregorianAdapter } from "./dateAdapter"
+import type { DateAdapter } from "./dateAdapter"
+import {
+  fiscalMonthIndex,
+  fiscalYearOf,
+  startOfFiscalYear,
+} from "./useMonthCalendar"
+
+/** One cell of a quarter grid. */
+export type CalendarQuarterCell = {
+  /** First day of the quarter. */
+  date: Date
+  /** 1–4, counted from the start of the fiscal year. */
+  quarter: number
+  /** The current quarter. */
+  today: boolean
+  selected: boolean
+  disabled: boolean
+  tabbable: boolean
+  hovered: boolean
+}
+
+export type UseQuarterCalendarOptions = {
+  /** Month index (0 = January) the fiscal year, and its quarters, start in. */
+  fiscalYearStartMonth?: number
+  minDate?: Date
+  maxDate?: Date
+  /** Called with the first day of each quarter; true disables that quarter. */
+  isQuarterDisabled?: (date: Date) => boolean
+  isQuarterSelected?: (date: Date) => boolean
+  /** Called with the first day of an enabled quarter when it is clicked. */
+  onSelect?: (date: Date) => void
+  /** Quarter made active before the user navigates. */
+  defaultQuarter?: Date | null
+  /** The current day, e.g. in the picker's time zone. Defaults to now. */
+  today?: Date
+  /** Calendar whose years and months the grid shows. Defaults to Gregorian. */
+  adapter?: DateAdapter
+}
+
+const quarterIndexes = [0, 1, 2, 3]
+const monthsPerQuarter = 3
+
+/** First day of the fiscal quarter `date` falls in. */
+export function startOfFiscalQuarter(
+  date: Date,
+  startMonth: number,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  const offset = fiscalMonthIndex(date, startMonth, adapter) % monthsPerQuarter
+  return adapter.add(adapter.startOfMonth(date), { months: -offset })
+}
+
+/** 1–4: the fiscal quarter `date` falls in. */
+export function fiscalQuarterOf(
+  date: Date,
+  startMonth: number,
+  adapter: DateAdapter = gregorianAdapter
+) {
+  const monthIndex = fiscalMonthIndex(date, startMonth, adapter)
+  return Math.floor(monthIndex / monthsPerQuarter) + 1
+}
+
+function endOfFiscalQuarter(quarter: Date, adapter: DateAdapter) {
+  const lastMonth = adapter.add(quarter, { months: monthsPerQuarter - 1 })
+  return adapter.endOfMonth(lastMonth)
+}
+
+function moveActiveQuarter(
+  quarter: Date,
+  key: string,
+  shiftKey: boolean,
+  adapter: DateAdapter
+) {
+  switch (key) {
+    case "ArrowLeft":
+      return adapter.add(quarter, { months: -monthsPerQuarter })
+    case "ArrowRight":
+      return adapter.add(quarter, { months: monthsPerQuarter })
+    case "ArrowUp":
+    case "PageUp":
+      return adapter.add(quarter, { years: shiftKey ? -10 : -1 })
+    case "ArrowDown":
+    case "PageDown":
+      return adapter.add(quarter, { years: shiftKey ? 10 : 1 })
+    default:
+      return null
+  }
+}
+
+function clampQuarter(
+  quarter: Date,
+  fiscalYearStartMonth: number,
+  adapter: DateAdapter,
+  minDate?: Date,
+  maxDate?: Date
+) {
+  if (
+    minDate &&
+    isBefore(endOfFiscalQuarter(quarter, adapter), startOfDay(minDate))
+  ) {
+    return startOfFiscalQuarter(minDate, fiscalYearStartMonth, adapter)
+  }
+  if (maxDate && isAfter(quarter, endOfDay(maxDate))) {
+    return startOfFiscalQuarter(maxDate, fiscalYearStartMonth, adapter)
+  }
+  return quarter
+}
+
+/**
+ * Headless quarter grid showing one (fiscal) year: its four quarters with
+ * their flags, keyboard navigation and prop getters for the grid, its
+ * cells and the year buttons.
+ */
+export function useQuarterCalendar({
+  fiscalYearStartMonth = 0,
+  minDate,
+  maxDate,
+  isQuarterDisabled,
+  isQuarterSelected,
+  onSelect,
+  defaultQuarter,
+  today = new Date(),
+  adapter = gregorianAdapter,
+}: UseQuarterCalendarOptions) {
+  const toQuarter = (date: Date) =>
+    startOfFiscalQuarter(date, fiscalYearStartMonth, adapter)
+  const state = useCalendarState(toQuarter(defaultQuarter ?? today), adapter)
+  const { panelMonth, activeDate, hoveredDate } = state
+  const fiscalYear = fiscalYearOf(panelMonth, fiscalYearStartMonth, adapter)
+  const fiscalYearStart = startOfFiscalYear(
+    fiscalYear,
+    fiscalYearStartMonth,
+    adapter
+  )
+
+  const isDisabled = (quarter: Date) =>
+    isPeriodOutOfRange(
+      quarter,
+      endOfFiscalQuarter(quarter, adapter),
+      minDate,
+      maxDate
+    ) || !!isQuarterDisabled?.(quarter)
+
+  // Roving tabindex: the active quarter when it is on the visible year,
+  // otherwise the first quarter of that year.
+  const tabbableIndex =
+    fiscalYearOf(activeDate, fiscalYearStartMonth, adapter) === fiscalYear
+      ? fiscalQuarterOf(activeDate, fiscalYearStartMonth, adapter) - 1
+      : 0
+  const currentQuarter = toQuarter(today)
+
+  const cells = quarterIndexes.map((index): CalendarQuarterCell => {
+    const date = adapter.add(fiscalYearStart, {
+      months: index * monthsPerQuarter,
+    })
+    const selected = !!isQuarterSelected?.(date)
+    const disabled = isDisabled(date)
+    return {
+      date,
+      quarter: index + 1,
+      today: adapter.isSameMonth(date, currentQuarter),
+      selected,
+      disabled,
+      tabbable: index === tabbableIndex,
+      hovered:
+        !selected &&
+        !disabled &&
+        !!hoveredDate &&
+        adapter.isSameMonth(date, hoveredDate),
+    }
+  })
+
+  const navigation = {
+    previousYear:
+      !!minDate &&
+      fiscalYear - 1 < fiscalYearOf(minDate, fiscalYearStartMonth, adapter),
+    nextYear:
+      !!maxDate &&
+      fiscalYear + 1 > fiscalYearOf(maxDate, fiscalYearStartMonth, adapter),
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const moved = moveActiveQuarter(
+      activeDate,
+      event.key,
+      event.shiftKey,
+      adapter
+    )
+    if (!moved) return
+    event.preventDefault()
+    const next = clampQuarter(
+      moved,
+      fiscalYearStartMonth,
+      adapter,
+      minDate,
+      maxDate
+    )
+    state.requestFocus()
+    state.setActiveDate(next)
+    state.setPanelMonth(next)
+  }
+
+  return {
+    ...state,
+    /** The fiscal year on screen; the calendar year when it starts in January. */
+    fiscalYear,
+    cells,
+    navigation,
+    /** Shows the year of `date` and makes its quarter active. */
+    showQuarter: (date: Date) => state.showDate(toQuarter(date)),
+    getGridProps: () => ({ onKeyDown: handleKeyDown }),
+    getQuarterProps: (cell: CalendarQuarterCell) => ({
+      type: "button" as const,
+      role: "gridcell",
+      tabIndex: cell.tabbable ? 0 : -1,
+      "aria-selected": cell.selected,
+      "aria-disabled": cell.disabled || undefined,
+      onClick: () => {
+        if (!cell.disabled) onSelect?.(cell.date)
+      },
+      onFocus: () => state.setActiveDate(cell.date),
+      onMouseEnter: () => state.setHoveredDate(cell.date),
+      onMouseLeave: () => state.setHoveredDate(null),
+    }),
+    getNavButtonProps: (direction: keyof typeof navigation) => ({
+      type: "button" as const,
+      disabled: navigation[direction],
+      onClick: () =>
+        state.shiftPanel({ years: direction === "previousYear" ? -1 : 1 }),
+    }),
+  }
+}
@@ -0,0 +1,546 @@
+import { useMemo } from "react"
+import type React from "react"
+import {
+  differenceInCalendarDays,
+  endOfDay,
+  endOfWeek,
+  isAfter,
+  isBefore,
+  isEqual,
+  isSameDay,
+  isWithinInterval,
+  startOfDay,
+  startOfWeek,
+} from "date-fns"
+import type { Day, Duration } from "date-fns"
+import {
+  chunkWeeks,
+  clampDate,
+  isMonthOutOfRange,
+  isOutOfRange,
+  isPeriodOutOfRange,
+  monthMatrix,
+  moveActiveDate,
+  useCalendarState,
+} from "./calendar"
+import type { CalendarNavigation } from "./calendar"
+import { gregorianAdapter } from "./dateAdapter"
+import type { DateAdapter } from "./dateAdapter"
+
+export type RangeCalendarPicker = "day" | "week" | "month" | "quarter" | "year"
+
+/** One cell of either range panel: a day, or a month, quarter or year. */
+export type RangeCalendarCell = {
+  /** First day of the cell's period. */
+  date: Date
+  /** False for padding cells repeating the neighbouring month or panel. */
+  inPanel: boolean
+  today: boolean
+  disabled: boolean
+  tabbable: boolean
+  hovered: boolean
+  rangeStart: boolean
+  rangeEnd: boolean
+  /** Strictly between the two ends. */
+  inRange: boolean
+}
+
+export type RangeCalendarPanel = {
+  /** First month, or first year, of the panel. */
+  start: Date
+  rows: RangeCalendarCell[][]
+}
+
+export type RangeField = 0 | 1
+
+export type UseRangeCalendarOptions = {
+  /** Day and week pickers use a day grid, the others a cell grid. */
+  picker?: RangeCalendarPicker
+  weekStartsOn: Day
+  minDate?: Date
+  maxDate?: Date
+  /** Called with the first day of each period; true disables it. */
+  disabledDate?: (date: Date) => boolean
+  /** Shortest allowed range, counted in days including both ends. */
+  minDays?: number
+  /** Longest allowed range, counted in days including both ends. */
+  maxDays?: number
+  /** When false, a range may not span any disabled period. */
+  allowDisabledInRange?: boolean
+  /** The range being edited; either end may still be empty. */
+  range: [Date | null, Date | null]
+  /** The end of `range` the next pick is written to. */
+  activeField: RangeField
+  /** Highlighted instead of `range` and the hover, e.g. for a preset. */
+  previewRange?: [Date, Date] | null
+  /** Called with the start of a period when an enabled cell is clicked. */
+  onSelect?: (date: Date) => void
+  /** Month shown in the left panel before the user navigates. */
+  defaultMonth?: Date | null
+  /** The current day, e.g. in the picker's time zone. Defaults to now. */
+  today?: Date
+  /** Calendar whose months and years the panels show. Defaults to Gregorian. */
+  adapter?: DateAdapter
+}
+
+type CellPicker = Exclude<RangeCalendarPicker, "day" | "week">
+
+// Years shown by each of the two panels, and cells per grid row.
+const panelYears: Record<CellPicker, number> = { month: 1, quarter: 1, year: 10 }
+const cellColumns: Record<CellPicker, number> = { month: 3, quarter: 4, year: 3 }
+
+function periodStart(
+  picker: RangeCalendarPicker,
+  date: Date,
+  weekStartsOn: Day,
+  adapter: DateAdapter
+) {
+  switch (picker) {
+    case "week":
+      return startOfWeek(date, { weekStartsOn })
+    case "month":
+      return adapter.startOfMonth(date)
+    case "quarter":
+      return adapter.startOfQuarter(date)
+    case "year":
+      return adapter.startOfYear(date)
+    default:
+      return startOfDay(date)
+  }
+}
+
+function periodEnd(
+  picker: RangeCalendarPicker,
+  date: Date,
+  weekStartsOn: Day,
+  adapter: DateAdapter
+) {
+  switch (picker) {
+    case "week":
+      return endOfWeek(date, { weekStartsOn })
+    case "month":
+      return adapter.endOfMonth(date)
+    case "quarter":
+      return adapter.endOfQuarter(date)
+    case "year":
+      return adapter.endOfYear(date)
+    default:
+      return endOfDay(date)
+  }
+}
+
+// Step between the cells of a picker. Week pickers pick on a day grid, so
+// their ranges are walked day by day.
+function periodStep(picker: RangeCalendarPicker, count: number): Duration {
+  switch (picker) {
+    case "month":
+      return { months: count }
+    case "quarter":
+      return { months: count * 3 }
+    case "year":
+      return { years: count }
+    default:
+      return { days: count }
+  }
+}
+
+function cellPanelStart(picker: CellPicker, date: Date, adapter: DateAdapter) {
+  return picker === "year"
+    ? adapter.startOfDecade(date)
+    : adapter.startOfYear(date)
+}
+
+// Year panels show their decade plus one year on either side.
+function cellPanelCells(picker: CellPicker, start: Date, adapter: DateAdapter) {
+  if (picker === "year") {
+    return Array.from({ length: 12 }, (_, i) =>
+      adapter.add(start, { years: i - 1 })
+    )
+  }
+  const count = picker === "quarter" ? 4 : 12
+  return Array.from({ length: count }, (_, i) =>
+    adapter.add(start, periodStep(picker, i))
+  )
+}
+
+function moveActiveCell(
+  date: Date,
+  key: string,
+  picker: CellPicker,
+  adapter: DateAdapter
+) {
+  const columns = cellColumns[picker]
+  const month = adapter.getMonth(date)
+  const index =
+    picker === "year"
+      ? (adapter.getYear(date) % 10) + 1
+      : picker === "quarter"
+        ? Math.floor(month / 3)
+        : month
+  switch (key) {
+    case "ArrowLeft":
+      return adapter.add(date, periodStep(picker, -1))
+    case "ArrowRight":
+      return adapter.add(date, periodStep(picker, 1))
+    case "ArrowUp":
+      return adapter.add(date, periodStep(picker, -columns))
+    case "ArrowDown":
+      return adapter.add(date, periodStep(picker, columns))
+    case "PageUp":
+      return adapter.add(date, { years: -panelYears[picker] })
+    case "PageDown":
+      return adapter.add(date, { years: panelYears[picker] })
+    case "Home":
+      return adapter.add(date, periodStep(picker, -(index % columns)))
+    case "End":
+      return adapter.add(
+        date,
+        periodStep(picker, columns - 1 - (index % columns))
+      )
+    default:
+      return null
+  }
+}
+
+function findDisabled(
+  from: Date,
+  step: Duration,
+  limit: Date,
+  isDisabled: (date: Date) => boolean,
+  adapter: DateAdapter
+) {
+  let cur = adapter.add(from, step)
+  const forward = isAfter(cur, from)
+  while (forward ? !isAfter(cur, limit) : !isBefore(cur, limit)) {
+    if (isDisabled(cur)) return cur
+    cur = adapter.add(cur, step)
+  }
+  return null
+}
+
+/**
+ * Headless two-panel range calendar. Besides the cells of both panels it
+ * owns the rules deciding which ends can be picked against the one already
+ * set: span limits and, with `allowDisabledInRange` off, disabled periods
+ * the range would reach across.
+ */
+export function useRangeCalendar({
+  picker = "day",
+  weekStartsOn,
+  minDate,
+  maxDate,
+  disabledDate,
+  minDays,
+  maxDays,
+  allowDisabledInRange = true,
+  range,
+  activeField,
+  previewRange,
+  onSelect,
+  defaultMonth,
+  today = new Date(),
+  adapter = gregorianAdapter,
+}: UseRangeCalendarOptions) {
+  const state = useCalendarState(defaultMonth ?? today, adapter)
+  const { panelMonth, activeDate, hoveredDate } = state
+
+  const cellPicker: CellPicker | null =
+    picker === "day" || picker === "week" ? null : picker
+  const toStart = (date: Date) =>
+    periodStart(picker, date, weekStartsOn, adapter)
+  const toEnd = (date: Date) => periodEnd(picker, date, weekStartsOn, adapter)
+  // The last cell a range ending in `date`'s period covers.
+  const toLastCell = (date: Date) =>
+    picker === "week" ? startOfDay(toEnd(date)) : toStart(date)
+
+  const secondMonth = useMemo(
+    () => adapter.add(panelMonth, { months: 1 }),
+    [panelMonth, adapter]
+  )
+  const firstMatrix = useMemo(
+    () => monthMatrix(panelMonth, weekStartsOn, adapter),
+    [panelMonth, weekStartsOn, adapter]
+  )
+  const secondMatrix = useMemo(
+    () => monthMatrix(secondMonth, weekStartsOn, adapter),
+    [secondMonth, weekStartsOn, adapter]
+  )
+
+  const isPickDisabled = (date: Date) =>
+    cellPicker
+      ? isPeriodOutOfRange(toStart(date), toEnd(date), minDate, maxDate) ||
+        !!disabledDate?.(toStart(date))
+      : isOutOfRange(date, minDate, maxDate) || !!disabledDate?.(date)
+
+  const isSpanOutOfBounds = (a: Date, b: Date) => {
+    const [first, last] = isAfter(a, b) ? [b, a] : [a, b]
+    const span = differenceInCalendarDays(toEnd(last), toStart(first)) + 1
+    return (
+      (minDays !== undefined && span < minDays) ||
+      (maxDays !== undefined && span > maxDays)
+    )
+  }
+
+  // First disabled cell met when walking away from `from` towards `limit`.
+  const findCrossing = (from: Date, direction: 1 | -1, limit: Date) =>
+    findDisabled(
+      direction > 0 ? toLastCell(from) : toStart(from),
+      periodStep(picker, direction),
+      limit,
+      isPickDisabled,
+      adapter
+    )
+
+  const violatesRangeRules = ([start, end]: [Date, Date]) =>
+    isSpanOutOfBounds(start, end) ||
+    (!allowDisabledInRange && !!findCrossing(start, 1, toLastCell(end)))
+
+  // Writes a picked date into `field`. A date beyond the other end swaps the
+  // two, so the result is always ordered.
+  const rangeWithPick = (
+    date: Date,
+    field: RangeField
+  ): [Date | null, Date | null] => {
+    const next: [Date | null, Date | null] = [...range]
+    next[field] = date
+    const [start, end] = next
+    return start && end && isAfter(toStart(start), toStart(end))
+      ? [end, start]
+      : next
+  }
+
+  const yearStep = cellPicker ? panelYears[cellPicker] : 1
+  const firstPanel = cellPicker
+    ? cellPanelStart(cellPicker, panelMonth, adapter)
+    : panelMonth
+  const secondPanel = cellPicker
+    ? adapter.add(firstPanel, { years: yearStep })
+    : secondMonth
+  const isVisibleFrom = (anchor: Date, date: Date) => {
+    if (!cellPicker) {
+      return (
+        adapter.isSameMonth(date, anchor) ||
+        adapter.isSameMonth(date, adapter.add(anchor, { months: 1 }))
+      )
+    }
+    const start = cellPanelStart(cellPicker, anchor, adapter)
+    return (
+      !isBefore(date, start) &&
+      isBefore(date, adapter.add(start, { years: 2 * yearStep }))
+    )
+  }
+
+  // Roving tabindex across both grids: the active date keeps focus while it
+  // is visible, otherwise the first cell of the left panel does.
+  const tabbableDate = isVisibleFrom(panelMonth, activeDate)
+    ? activeDate
+    : cellPicker
+      ? firstPanel
+      : adapter.startOfMonth(panelMonth)
+
+  // The highlighted span, widened to whole periods. A single end highlights
+  // just its own period.
+  const [shownStart, shownEnd] =
+    previewRange ??
+    (hoveredDate ? rangeWithPick(toStart(hoveredDate), activeField) : range)
+  const shownFirst = shownStart ?? shownEnd
+  const shownLast = shownEnd ?? shownStart
+  const highlight =
+    shownFirst && shownLast
+      ? isAfter(shownFirst, shownLast)
+        ? { start: toStart(shownLast), end: toEnd(shownFirst) }
+        : { start: toStart(shownFirst), end: toEnd(shownLast) }
+      : null
+
+  // Cells that would break the span limits or reach across a disabled cell
+  // cannot be picked against the end that is already set.
+  const anchorValue = range[activeField === 0 ? 1 : 0]
+  const anchorDate = anchorValue ? toStart(anchorValue) : null
+  const visibleFirst = cellPicker
+    ? adapter.add(firstPanel, { years: picker === "year" ? -1 : 0 })
+    : firstMatrix[0]
+  const visibleLast = cellPicker
+    ? adapter.add(secondPanel, { years: yearStep, days: -1 })
+    : secondMatrix[secondMatrix.length - 1]
+  const crossingBounds =
+    anchorDate && !allowDisabledInRange
+      ? {
+          before: findCrossing(
+            anchorDate,
+            -1,
+            isBefore(activeDate, visibleFirst) ? activeDate : visibleFirst
+          ),
+          after: findCrossing(
+            anchorDate,
+            1,
+            isAfter(activeDate, visibleLast) ? activeDate : visibleLast
+          ),
+        }
+      : null
+  const isEndBlocked = (date: Date) =>
+    !!anchorDate &&
+    (isSpanOutOfBounds(anchorDate, date) ||
+      (!!crossingBounds?.before &&
+        !isAfter(toStart(date), crossingBounds.before)) ||
+      (!!crossingBounds?.after &&
+        !isBefore(toLastCell(date), crossingBounds.after)))
+
+  const toCell = (date: Date, inPanel: boolean): RangeCalendarCell => {
+    // Day grids match by day; cell grids hold period starts. Padding cells
+    // of a cell grid repeat the neighbouring panel, so only cells of this
+    // panel show the range.
+    const same = cellPicker ? isEqual : isSameDay
+    const showsRange = !!highlight && (!cellPicker || inPanel)
+    const rangeStart = showsRange && same(date, highlight.start)
+    const rangeEnd =
+      showsRange &&
+      (cellPicker
+        ? isEqual(date, toStart(highlight.end))
+        : isSameDay(date, highlight.end))
+    const disabled = isPickDisabled(date) || isEndBlocked(date)
+    return {
+      date,
+      inPanel,
+      today: same(date, cellPicker ? toStart(today) : today),
+      disabled,
+      tabbable: inPanel && same(date, tabbableDate),
+      hovered:
+        inPanel &&
+        !rangeStart &&
+        !rangeEnd &&
+        !disabled &&
+        !!hoveredDate &&
+        same(date, hoveredDate),
+      rangeStart,
+      rangeEnd,
+      inRange:
+        showsRange &&
+        isWithinInterval(date, highlight) &&
+        !rangeStart &&
+        !rangeEnd,
+    }
+  }
+
+  const toPanel = (start: Date, matrix: Date[]): RangeCalendarPanel => {
+    if (!cellPicker) {
+      return {
+        start,
+        rows: chunkWeeks(
+          matrix.map((date) => toCell(date, adapter.isSameMonth(date, start)))
+        ),
+      }
+    }
+    const end = adapter.add(start, { years: panelYears[cellPicker] })
+    const cells = cellPanelCells(cellPicker, start, adapter).map((cell) =>
+      toCell(cell, !isBefore(cell, start) && isBefore(cell, end))
+    )
+    const columns = cellColumns[cellPicker]
+    const rows: RangeCalendarCell[][] = []
+    for (let i = 0; i < cells.length; i += columns) {
+      rows.push(cells.slice(i, i + columns))
+    }
+    return { start, rows }
+  }
+
+  const panels: [RangeCalendarPanel, RangeCalendarPanel] = [
+    toPanel(firstPanel, firstMatrix),
+    toPanel(secondPanel, secondMatrix),
+  ]
+
+  const isPanelOutOfRange = (panel: Date) =>
+    cellPicker
+      ? isPeriodOutOfRange(
+          panel,
+          adapter.endOfYear(adapter.add(panel, { years: yearStep - 1 })),
+          minDate,
+          maxDate
+        )
+      : isMonthOutOfRange(panel, minDate, maxDate, adapter)
+  const navigationSteps: Record<keyof CalendarNavigation, Duration> = {
+    previousYear: { years: -yearStep },
+    previousMonth: { months: -1 },
+    nextMonth: { months: 1 },
+    nextYear: { years: yearStep },
+  }
+  const navigation: CalendarNavigation = {
+    previousYear: isPanelOutOfRange(
+      adapter.add(firstPanel, { years: -yearStep })
+    ),
+    previousMonth: isPanelOutOfRange(adapter.add(panelMonth, { months: -1 })),
+    nextMonth: isPanelOutOfRange(adapter.add(secondMonth, { months: 1 })),
+    nextYear: isPanelOutOfRange(adapter.add(secondPanel, { years: yearStep })),
+  }
+
+  // Moves the active cell and scrolls the panels so it stays visible.
+  // While one end is set the hover follows it, previewing the range.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const moved = cellPicker
+      ? moveActiveCell(activeDate, event.key, cellPicker, adapter)
+      : moveActiveDate(
+          activeDate,
+          event.key,
+          event.shiftKey,
+          weekStartsOn,
+          adapter
+        )
+    if (!moved) return
+    event.preventDefault()
+    const clamped = clampDate(moved, minDate, maxDate)
+    const next = cellPicker ? toStart(clamped) : clamped
+    state.requestFocus()
+    state.setActiveDate(next)
+    if (cellPicker) {
+      if (!isVisibleFrom(panelMonth, next)) {
+        state.setPanelMonth(
+          isBefore(next, firstPanel)
+            ? next
+            : adapter.add(next, { years: -panelYears[cellPicker] })
+        )
+      }
+    } else if (isBefore(next, adapter.startOfMonth(panelMonth))) {
+      state.setPanelMonth(next)
+    } else if (isBefore(adapter.endOfMonth(secondMonth), next)) {
+      state.setPanelMonth(adapter.add(next, { months: -1 }))
+    }
+    if (anchorDate) {
+      state.setHoveredDate(isEndBlocked(next) ? null : next)
+    }
+  }
+
+  return {
+    ...state,
+    /** The cell picker in use, or null for day and week pickers. */
+    cellPicker,
+    panels,
+    navigation,
+    toStart,
+    toEnd,
+    isPickDisabled,
+    violatesRangeRules,
+    rangeWithPick,
+    isVisibleFrom,
+    getGridProps: () => ({ onKeyDown: handleKeyDown }),
+    getCellProps: (cell: RangeCalendarCell) => ({
+      type: "button" as const,
+      role: "gridcell",
+      tabIndex: cell.tabbable ? 0 : -1,
+      "aria-selected": cell.rangeStart || cell.rangeEnd || cell.inRange,
+      "aria-disabled": cell.disabled || undefined,
+      "aria-current": cell.today ? ("date" as const) : undefined,
+      onClick: () => {
+        if (!cell.disabled) onSelect?.(toStart(cell.date))
+      },
+      onFocus: () => {
+        if (cell.inPanel) state.setActiveDate(cell.date)
+      },
+      onMouseEnter: () =>
+        state.setHoveredDate(cell.disabled ? null : cell.date),
+      onMouseLeave: () => state.setHoveredDate(null),
+    }),
+    getNavButtonProps: (direction: keyof CalendarNavigation) => ({
+      type: "button" as const,
+      disabled: navigation[direction],
+      onClick: () => state.shiftPanel(navigationSteps[direction]),
+    }),
+  }
+}
@@ -1,72 +1,234 @@
-import React, { useEffect, useMemo, useRef, useState } from "react"
+import React, { useEffect, useId, useRef, useState } from "react"
 import {
-  add,
-  endOfMonth,
-  endOfWeek,
+  compareAsc,
   format,
+  getHours,
+  getMinutes,
+  getSeconds,
+  isAfter,
+  isBefore,
   isEqual,
   isSameDay,
-  isSameMonth,
-  startOfMonth,
-  startOfWeek,
+  isValid,
+  set,
+  startOfDay,
 } from "date-fns"
+import {
+  clampDate,
+  isOutOfRange,
+  isPeriodOutOfRange,
+  rotateWeekDays,
+  rowWeekStartsOn,
+  useCalendar,
+  usePickerField,
+  usePickerPopup,
+  weekNumberOf,
+  zonedNow,
+} from "../Calendar"
+import type {
+  CalendarCellInfo,
+  CalendarCellRender,
+  DateAdapter,
+  PickerOpenChangeReason,
+  PickerPopupProps,
+  PickerTriggerProps,
+  PickerValueProps,
+  UsePickerFieldOptions,
+  WeekNumbering,
+} from "../Calendar"
+import { useLocale } from "../LocaleProvider"
+import type { PickerLocaleProps } from "../LocaleProvider"
+import { themeVars } from "../ThemeProvider"
 
-export type DatePickerBaseProps = {
-  value?: Date | null
-  onChange?: (d: Date | null) => void
-  placeholder?: string
+export type DatePickerTimeOptions = {
+  showSeconds?: boolean
+  hourStep?: number
+  minuteStep?: number
+  secondStep?: number
+  use12Hours?: boolean
 }
 
+export type DatePickerView = "day" | "month" | "year" | "decade"
+
+type DatePickerBaseSharedProps = PickerLocaleProps &
+  PickerPopupProps &
+  PickerTriggerProps & {
+    placeholder?: string
+    /**
+     * Extra date-fns patterns accepted when parsing typed text. The display
+     * format (`formats.date`) is always tried first.
+     */
+    parseFormats?: string[]
+    minDate?: Date
+    maxDate?: Date
+    /** Returns true for days that cannot be picked. */
+    disabledDate?: (date: Date) => boolean
+    /**
+     * Adds hour/minute(/second) columns next to the day grid. The selection is
+     * committed with the OK button instead of on day click.
+     */
+    showTime?: boolean | DatePickerTimeOptions
+    /**
+     * Panels the popup can drill through. Picking in the finest one commits the
+     * value; clicking the header label zooms out to the next coarser one.
+     */
+    views?: DatePickerView[]
+    /** Panel shown when the popup opens. Defaults to the finest view. */
+    openTo?: DatePickerView
+    /** Custom content for day, month, year and decade cells. */
+    cellRender?: CalendarCellRender
+    /** Starts every row of the day grid with its week number. */
+    showWeekNumber?: boolean
+    /** How week numbers count. "iso" also starts the rows on Monday. */
+    weekNumbering?: WeekNumbering
+    /**
+     * Renders the panel in the page flow, always visible and without the
+     * trigger input.
+     */
+    inline?: boolean
+  }
+
+export type DatePickerBaseProps = DatePickerBaseSharedProps &
+  (
+    | ({
+        multiple?: false
+        maxCount?: never
+        maxTagCount?: never
+      } & PickerValueProps<Date | null, string>)
+    | ({
+        /**
+         * Selects a list of days. Clicking a day toggles it and the popup
+         * stays open; `showTime` is ignored.
+         */
+        multiple: true
+        /** Largest number of days that can be selected. */
+        maxCount?: number
+        /** Tags shown in the trigger before the rest collapse into "+N". */
+        maxTagCount?: number
+      } & PickerValueProps<Date[], string[]>)
+  )
+
+type FieldOptions = UsePickerFieldOptions<
+  Date | Date[] | null,
+  string | string[]
+>
+
 const styles: Record<string, React.CSSProperties> = {
   container: {
     position: "relative",
     width: 320,
-    fontFamily:
-      '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", sans-serif',
-    fontSize: 14,
-    color: "rgba(0,0,0,0.88)",
+    fontFamily: themeVars.fontFamily,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+  },
+  containerInline: {
+    width: "fit-content",
   },
   input: {
     display: "flex",
     alignItems: "center",
     gap: 8,
-    border: "1px solid #d9d9d9",
-    borderRadius: 6,
+    borderWidth: 1,
+    borderStyle: "solid",
+    borderColor: themeVars.colorBorder,
+    borderRadius: themeVars.borderRadius,
     padding: "4px 12px",
-    background: "#fff",
+    background: themeVars.colorBgContainer,
     height: 32,
     cursor: "pointer",
     transition: "border-color .3s, box-shadow .3s",
   },
   inputActive: {
-    borderColor: "#4096ff",
-    boxShadow: "0 0 0 2px rgba(24, 144, 255, 0.2)",
+    borderColor: themeVars.colorPrimaryHover,
+    boxShadow: `0 0 0 2px ${themeVars.colorPrimaryOutline}`,
   },
-  value: {
-    lineHeight: "22px",
-    whiteSpace: "nowrap",
-    overflow: "hidden",
-    textOverflow: "ellipsis",
+  inputError: {
+    borderColor: themeVars.colorError,
+    boxShadow: `0 0 0 2px ${themeVars.colorErrorOutline}`,
+  },
+  inputWarning: {
+    borderColor: themeVars.colorWarning,
+    boxShadow: `0 0 0 2px ${themeVars.colorWarningOutline}`,
+  },
+  inputSmall: {
+    height: 24,
+    padding: "0 8px",
+  },
+  inputLarge: {
+    height: 40,
+    padding: "6px 12px",
+  },
+  inputDisabled: {
+    borderColor: themeVars.colorBorder,
+    boxShadow: "none",
+    background: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
   },
-  placeholder: {
-    color: "rgba(0,0,0,0.25)",
+  textInput: {
+    width: "100%",
+    minWidth: 0,
+    padding: 0,
+    border: "none",
+    outline: "none",
+    background: "transparent",
+    font: "inherit",
+    color: "inherit",
     lineHeight: "22px",
-    whiteSpace: "nowrap",
-    overflow: "hidden",
-    textOverflow: "ellipsis",
   },
   pop: {
-    position: "absolute",
-    zIndex: 50,
-    top: "100%",
-    marginTop: 4,
-    background: "#fff",
-    border: "1px solid #eee",
-    borderRadius: 8,
+    background: themeVars.colorBgElevated,
+    border: `1px solid ${themeVars.colorBorderSecondary}`,
+    borderRadius: themeVars.borderRadiusLG,
     width: 304,
-    boxShadow: "0 6px 16px rgba(0,0,0,.08)",
+    boxShadow: themeVars.boxShadow,
     padding: "16px 12px 12px",
   },
+  popWithTime: {
+    width: "auto",
+  },
+  popInline: {
+    boxShadow: "none",
+  },
+  panels: {
+    display: "flex",
+  },
+  datePanel: {
+    width: 280,
+    flexShrink: 0,
+  },
+  timePanel: {
+    display: "flex",
+    marginLeft: 8,
+    borderLeft: `1px solid ${themeVars.colorBorderSecondary}`,
+  },
+  timeColumn: {
+    position: "relative",
+    width: 56,
+    height: 288,
+    overflowY: "auto",
+    padding: "0 4px",
+    borderRight: `1px solid ${themeVars.colorBorderSecondary}`,
+  },
+  timeCell: {
+    display: "block",
+    width: "100%",
+    height: 28,
+    marginBottom: 4,
+    padding: 0,
+    border: "none",
+    borderRadius: themeVars.borderRadiusSM,
+    backgroundColor: "transparent",
+    cursor: "pointer",
+    fontFamily: "inherit",
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+    transition: "background-color .2s",
+  },
+  timeCellSelected: {
+    backgroundColor: themeVars.colorPrimaryBg,
+    fontWeight: 600,
+  },
   header: {
     display: "flex",
     alignItems: "center",
@@ -80,7 +242,15 @@ const styles: Record<string, React.CSSProperties> = {
     flex: 1,
     textAlign: "center",
     fontSize: 16,
-    color: "rgba(0,0,0,0.88)",
+    color: themeVars.colorText,
+  },
+  headerLabelButton: {
+    border: "none",
+    background: "transparent",
+    padding: 0,
+    fontFamily: "inherit",
+    fontWeight: 500,
+    cursor: "pointer",
   },
   iconButton: {
     width: 24,
@@ -89,15 +259,23 @@ const styles: Record<string, React.CSSProperties> = {
     alignItems: "center",
     justifyContent: "center",
     border: "none",
-    background: "transparent",
-    color: "rgba(0,0,0,0.45)",
-    borderRadius: 4,
+    backgroundColor: "transparent",
+    color: themeVars.colorTextTertiary,
+    borderRadius: themeVars.borderRadiusSM,
     cursor: "pointer",
     transition: "background-color .2s, color .2s",
     padding: 0,
     fontSize: 12,
     lineHeight: "24px",
   },
+  iconButtonHover: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorPrimary,
+  },
+  iconButtonDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   iconGlyph: {
     display: "inline-block",
     width: "100%",
@@ -110,7 +288,7 @@ const styles: Record<string, React.CSSProperties> = {
     marginBottom: 8,
     padding: "0 8px",
     fontSize: 12,
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
   },
   grid: {
     display: "grid",
@@ -119,37 +297,113 @@ const styles: Record<string, React.CSSProperties> = {
     rowGap: 8,
     padding: "0 8px",
   },
+  row: {
+    display: "contents",
+  },
+  weekNumberColumns: {
+    gridTemplateColumns: "24px repeat(7,1fr)",
+  },
+  weekNumber: {
+    height: themeVars.cellSize,
+    lineHeight: themeVars.cellSize,
+    textAlign: "center",
+    fontSize: 12,
+    color: themeVars.colorTextTertiary,
+  },
   dayBtn: {
     width: "100%",
-    height: 32,
+    height: themeVars.cellSize,
     padding: 0,
     border: "none",
-    background: "transparent",
-    borderRadius: 4,
+    backgroundColor: "transparent",
+    borderRadius: themeVars.borderRadiusSM,
     cursor: "pointer",
-    fontSize: 14,
-    lineHeight: "32px",
+    fontSize: themeVars.fontSize,
+    lineHeight: themeVars.cellSize,
     display: "flex",
     alignItems: "center",
     justifyContent: "center",
-    color: "rgba(0,0,0,0.88)",
+    color: themeVars.colorText,
     transition:
       "background-color .2s, color .2s, border-color .2s, box-shadow .2s",
   },
+  dayBtnDisabled: {
+    backgroundColor: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  cellGrid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(3, 1fr)",
+    gap: 8,
+    padding: "0 8px",
+  },
+  cellBtn: {
+    border: "none",
+    borderRadius: themeVars.borderRadius,
+    backgroundColor: "transparent",
+    cursor: "pointer",
+    height: `calc(${themeVars.cellSize} + 4px)`,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+    transition:
+      "background-color .2s, color .2s, box-shadow .2s, border-color .2s",
+  },
   footer: {
-    borderTop: "1px solid #f0f0f0",
+    display: "block",
+    width: "100%",
+    border: "none",
+    borderTop: `1px solid ${themeVars.colorBorderSecondary}`,
+    background: "transparent",
     marginTop: 12,
-    paddingTop: 12,
+    padding: "12px 0 0",
+    font: "inherit",
     textAlign: "center",
-    color: "#1677ff",
+    color: themeVars.colorPrimary,
+    cursor: "pointer",
+    fontWeight: 600,
+  },
+  timeFooter: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    borderTop: `1px solid ${themeVars.colorBorderSecondary}`,
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  nowButton: {
+    border: "none",
+    background: "transparent",
+    padding: 0,
+    font: "inherit",
+    color: themeVars.colorPrimary,
     cursor: "pointer",
     fontWeight: 600,
   },
+  okButton: {
+    height: 24,
+    padding: "0 8px",
+    border: "none",
+    borderRadius: themeVars.borderRadiusSM,
+    background: themeVars.colorPrimary,
+    color: themeVars.colorTextOnPrimary,
+    font: "inherit",
+    cursor: "pointer",
+  },
+  okButtonDisabled: {
+    background: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  footerDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   suffix: {
     display: "flex",
     alignItems: "center",
     gap: 6,
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
   },
   field: {
     flex: 1,
@@ -157,6 +411,42 @@ const styles: Record<string, React.CSSProperties> = {
     display: "flex",
     alignItems: "center",
   },
+  tagList: {
+    gap: 4,
+    overflow: "hidden",
+  },
+  tag: {
+    display: "inline-flex",
+    alignItems: "center",
+    flexShrink: 0,
+    gap: 2,
+    height: 22,
+    padding: "0 4px 0 8px",
+    borderRadius: themeVars.borderRadiusSM,
+    backgroundColor: themeVars.colorFill,
+    fontSize: 12,
+    lineHeight: "20px",
+    whiteSpace: "nowrap",
+  },
+  tagOverflow: {
+    padding: "0 8px",
+    color: themeVars.colorTextSecondary,
+  },
+  tagRemove: {
+    width: 16,
+    height: 16,
+    padding: 0,
+    border: "none",
+    backgroundColor: "transparent",
+    color: themeVars.colorTextTertiary,
+    cursor: "pointer",
+    fontSize: 12,
+    lineHeight: "16px",
+  },
+  tagInput: {
+    flex: 1,
+    minWidth: 32,
+  },
   clearButton: {
     display: "inline-flex",
     alignItems: "center",
@@ -165,267 +455,1213 @@ const styles: Record<string, React.CSSProperties> = {
     height: 16,
     borderRadius: "50%",
     border: "none",
-    background: "rgba(0,0,0,0.06)",
-    color: "rgba(0,0,0,0.45)",
+    backgroundColor: themeVars.colorFill,
+    color: themeVars.colorTextTertiary,
     cursor: "pointer",
     fontSize: 12,
     transition: "background-color .2s, color .2s",
   },
+  clearButtonHover: {
+    backgroundColor: themeVars.colorFillHover,
+    color: themeVars.colorTextSecondary,
+  },
+}
+
+// Finest first: drilling down walks towards the start of the list.
+const viewOrder: DatePickerView[] = ["day", "month", "year", "decade"]
+const cellsPerRow = 3
+
+const noDates: Date[] = []
+
+type CellView = Exclude<DatePickerView, "day">
+
+// Years covered by one cell, and by one panel, of each cell view.
+const cellYears: Record<CellView, number> = { month: 0, year: 1, decade: 10 }
+const panelYears: Record<CellView, number> = { month: 1, year: 10, decade: 100 }
+
+function startOfCentury(date: Date, adapter: DateAdapter) {
+  const century = Math.floor(adapter.getYear(date) / 100) * 100
+  return adapter.startOfYear(adapter.setYear(date, century))
 }
 
-const weekDays = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"]
+function panelStart(view: CellView, anchor: Date, adapter: DateAdapter) {
+  if (view === "month") return adapter.startOfYear(anchor)
+  if (view === "year") return adapter.startOfDecade(anchor)
+  return startOfCentury(anchor, adapter)
+}
+
+function panelEnd(view: CellView, anchor: Date, adapter: DateAdapter) {
+  const start = panelStart(view, anchor, adapter)
+  return adapter.endOfYear(
+    adapter.add(start, { years: panelYears[view] - 1 })
+  )
+}
+
+/**
+ * The 12 cells of a month, year or decade panel. Year and decade panels pad
+ * their span with one neighbouring cell on each side, like the day grid does
+ * with adjacent months.
+ */
+function panelCells(view: CellView, anchor: Date, adapter: DateAdapter) {
+  const start = panelStart(view, anchor, adapter)
+  return Array.from({ length: 12 }, (_, i) =>
+    view === "month"
+      ? adapter.add(start, { months: i })
+      : adapter.add(start, { years: (i - 1) * cellYears[view] })
+  )
+}
+
+function cellEnd(view: CellView, cell: Date, adapter: DateAdapter) {
+  if (view === "month") return adapter.endOfMonth(cell)
+  return adapter.endOfYear(adapter.add(cell, { years: cellYears[view] - 1 }))
+}
+
+function isSameCell(view: CellView, a: Date, b: Date, adapter: DateAdapter) {
+  if (view === "month") return adapter.isSameMonth(a, b)
+  if (view === "year") return adapter.isSameYear(a, b)
+  const decadeOf = (date: Date) => Math.floor(adapter.getYear(date) / 10)
+  return decadeOf(a) === decadeOf(b)
+}
 
-function monthMatrix(anchor: Date) {
-  const start = startOfWeek(startOfMonth(anchor), { weekStartsOn: 0 })
-  const end = endOfWeek(endOfMonth(anchor), { weekStartsOn: 0 })
-  const days: Date[] = []
-  let cur = start
-  while (cur <= end) {
-    days.push(cur)
-    cur = add(cur, { days: 1 })
+function moveActiveCell(
+  date: Date,
+  key: string,
+  view: CellView,
+  adapter: DateAdapter
+) {
+  const by = (n: number) =>
+    view === "month" ? { months: n } : { years: n * cellYears[view] }
+  const index = panelCells(view, date, adapter).findIndex((cell) =>
+    isSameCell(view, cell, date, adapter)
+  )
+  const column = index % cellsPerRow
+  switch (key) {
+    case "ArrowLeft":
+      return adapter.add(date, by(-1))
+    case "ArrowRight":
+      return adapter.add(date, by(1))
+    case "ArrowUp":
+      return adapter.add(date, by(-cellsPerRow))
+    case "ArrowDown":
+      return adapter.add(date, by(cellsPerRow))
+    case "PageUp":
+      return adapter.add(date, { years: -panelYears[view] })
+    case "PageDown":
+      return adapter.add(date, { years: panelYears[view] })
+    case "Home":
+      return adapter.add(date, by(-column))
+    case "End":
+      return adapter.add(date, by(cellsPerRow - 1 - column))
+    default:
+      return null
   }
-  return days
 }
 
+function stepValues(limit: number, step = 1) {
+  return Array.from({ length: Math.ceil(limit / step) }, (_, i) => i * step)
+}
+
+function timeFormat({ showSeconds, use12Hours }: DatePickerTimeOptions) {
+  const hours = use12Hours ? "hh" : "HH"
+  const seconds = showSeconds ? ":ss" : ""
+  return `${hours}:mm${seconds}${use12Hours ? " a" : ""}`
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
 export const DatePickerBase: React.FC<DatePickerBaseProps> = ({
-  value = null,
-  onChange,
-  placeholder = "Select date",
+  multiple,
+  value: valueProp,
+  onChange: onChangeProp,
+  valueFormat,
+  name,
+  defaultValue,
+  required,
+  serialize,
+  ref,
+  maxCount,
+  maxTagCount = 3,
+  placeholder,
+  parseFormats,
+  minDate,
+  maxDate,
+  disabledDate,
+  showTime,
+  views,
+  openTo,
+  cellRender,
+  showWeekNumber = false,
+  weekNumbering = "locale",
+  inline = false,
+  open: openProp,
+  defaultOpen,
+  onOpenChange,
+  getPopupContainer,
+  disabled = false,
+  readOnly = false,
+  size = "middle",
+  status,
+  locale,
+  messages,
+  formats,
+  timeZone,
+  dateAdapter,
 }) => {
-  const containerRef = useRef<HTMLDivElement | null>(null)
-  const [open, setOpen] = useState(false)
+  const i18n = useLocale({
+    locale,
+    messages,
+    formats,
+    timeZone,
+    dateAdapter,
+  })
+  const { adapter } = i18n
+  const weekStartsOn = rowWeekStartsOn(weekNumbering, i18n.weekStartsOn)
+  const weekDays = rotateWeekDays(
+    i18n.weekDays,
+    i18n.weekStartsOn,
+    weekStartsOn
+  )
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const formField = usePickerField({
+    name,
+    defaultValue,
+    required,
+    serialize,
+    ref: ref as FieldOptions["ref"],
+    value: valueProp,
+    valueFormat,
+    timeZone: i18n.timeZone,
+    emptyValue: multiple ? noDates : null,
+    onChange: onChangeProp as FieldOptions["onChange"],
+    formatText: (dates): string | string[] =>
+      Array.isArray(dates)
+        ? dates.map(formatDate)
+        : dates
+          ? formatDate(dates)
+          : "",
+    toDates: (dates) => (Array.isArray(dates) ? dates : [dates]),
+    getFocusTarget: () =>
+      inputRef.current ??
+      containerRef.current?.querySelector<HTMLElement>(
+        '[role="gridcell"][tabindex="0"]'
+      ) ??
+      null,
+  })
+  // Single mode works on one date, multiple mode on a sorted list of days.
+  // Both are handled as wall-clock dates in the picker's time zone.
+  const value = Array.isArray(formField.value) ? null : formField.value
+  const onChange = multiple
+    ? undefined
+    : (date: Date | null) => formField.setValue(date)
+  const selectedDates = Array.isArray(formField.value)
+    ? formField.value
+    : noDates
+  const onDatesChange = multiple
+    ? (dates: Date[]) => formField.setValue(dates)
+    : undefined
+  const today = zonedNow(i18n.timeZone)
+  const labelId = useId()
+  const timePanelRef = useRef<HTMLDivElement | null>(null)
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
   const [focused, setFocused] = useState(false)
-  const [panelMonth, setPanelMonth] = useState<Date>(value ?? new Date())
+  // Text typed into the input; null while the input mirrors `value`.
+  const [inputText, setInputText] = useState<string | null>(null)
+  // Date and time chosen in the panel but not yet confirmed with OK.
+  const [pendingDate, setPendingDate] = useState<Date | null>(null)
+  const {
+    containerRef,
+    open,
+    setOpen,
+    contains,
+    sizeVars,
+    getTriggerProps,
+    renderPopup,
+  } = usePickerPopup({
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    getPopupContainer,
+    inline,
+    disabled,
+    readOnly,
+    size,
+    onOutsideClick: () => setPendingDate(null),
+    onOpenSync: (isOpen) => (isOpen ? preparePanel() : setPendingDate(null)),
+  })
+  const availableViews = viewOrder.filter((v) => !views || views.includes(v))
+  const initialView =
+    openTo && availableViews.includes(openTo) ? openTo : availableViews[0]
+  const [view, setView] = useState<DatePickerView>(initialView)
+
+  const timeOptions =
+    showTime && !multiple ? (showTime === true ? {} : showTime) : null
+  const displayFormat = timeOptions
+    ? `${i18n.formats.date} ${timeFormat(timeOptions)}`
+    : i18n.formats.date
+  const formatDate = (date: Date) =>
+    adapter.format(date, displayFormat, { locale: i18n.locale })
+
+  const isDisabled = (date: Date) =>
+    isOutOfRange(date, minDate, maxDate) || !!disabledDate?.(date)
+
+  const parseInput = (text: string) => {
+    const trimmed = text.trim()
+    for (const pattern of [displayFormat, ...(parseFormats ?? [])]) {
+      const parsed = adapter.parse(trimmed, pattern, new Date(), {
+        locale: i18n.locale,
+      })
+      if (isValid(parsed)) return isDisabled(parsed) ? null : parsed
+    }
+    return null
+  }
+
+  const draftDate = inputText ? parseInput(inputText) : null
+  const inputInvalid = !!inputText?.trim() && !draftDate
+  // Disabled and read-only triggers show the value but never change it.
+  const locked = disabled || readOnly
+  const selectedDate = inputText === null ? (pendingDate ?? value) : draftDate
+  const selectedTime = selectedDate?.getTime()
 
-  const days = useMemo(() => monthMatrix(panelMonth), [panelMonth])
+  useEffect(() => {
+    if (!open) return
+    // Scroll every time column so that its selected option is at the top.
+    timePanelRef.current
+      ?.querySelectorAll<HTMLElement>('[role="listbox"]')
+      .forEach((column) => {
+        const option = column.querySelector<HTMLElement>(
+          '[aria-selected="true"]'
+        )
+        if (option) {
+          column.scrollTop = option.offsetTop
+        }
+      })
+  }, [open, selectedTime])
+
+  const atMaxCount =
+    maxCount !== undefined && selectedDates.length >= maxCount
+  const isDateSelected = (date: Date) =>
+    multiple
+      ? selectedDates.some((selected) => isSameDay(selected, date))
+      : !!selectedDate && isSameDay(date, selectedDate)
+
+  const calendar = useCalendar({
+    weekStartsOn,
+    minDate,
+    maxDate,
+    isDateDisabled: (date) =>
+      !!disabledDate?.(date) || (atMaxCount && !isDateSelected(date)),
+    isDateSelected,
+    onSelect: (date) => pick(date),
+    defaultMonth: value,
+    today,
+    adapter,
+  })
+  const {
+    panelMonth,
+    setPanelMonth,
+    activeDate,
+    setActiveDate,
+    hoveredDate,
+    setHoveredDate,
+  } = calendar
 
   useEffect(() => {
     if (value) {
       setPanelMonth(value)
     }
-  }, [value])
+  }, [value, setPanelMonth])
 
-  useEffect(() => {
-    const handleOutsideClick = (event: MouseEvent) => {
-      if (
-        open &&
-        containerRef.current &&
-        !containerRef.current.contains(event.target as Node)
-      ) {
-        setOpen(false)
-      }
-    }
-    document.addEventListener("mousedown", handleOutsideClick)
-    return () => document.removeEventListener("mousedown", handleOutsideClick)
-  }, [open])
+  const toggleDate = (date: Date) => {
+    const selected = isDateSelected(date)
+    if (!selected && atMaxCount) return
+    onDatesChange?.(
+      selected
+        ? selectedDates.filter((d) => !isSameDay(d, date))
+        : [...selectedDates, date].sort(compareAsc)
+    )
+  }
+
+  // Shows the selection, or today, in the view the popup opens to.
+  const preparePanel = () => {
+    const initial = startOfDay(
+      selectedDate ?? selectedDates[selectedDates.length - 1] ?? today
+    )
+    calendar.showDate(initial)
+    setPendingDate(null)
+    setView(initialView)
+  }
+
+  const openPanel = (focusGrid: boolean) => {
+    if (locked) return
+    preparePanel()
+    calendar.requestFocus(focusGrid)
+    setOpen(true, "trigger")
+  }
+
+  const closePanel = (reason: PickerOpenChangeReason) => {
+    setOpen(false, reason)
+    setPendingDate(null)
+    inputRef.current?.focus()
+  }
 
   const pick = (d: Date) => {
+    if (isDisabled(d)) return
+    if (multiple) {
+      toggleDate(d)
+      setActiveDate(startOfDay(d))
+      setInputText(null)
+      return
+    }
+    if (timeOptions) {
+      const time = pendingDate ?? value
+      setPendingDate(
+        time
+          ? set(d, {
+              hours: getHours(time),
+              minutes: getMinutes(time),
+              seconds: getSeconds(time),
+            })
+          : d
+      )
+      setActiveDate(d)
+      setInputText(null)
+      return
+    }
     onChange?.(d)
-    setOpen(false)
+    setInputText(null)
+    closePanel("select")
+  }
+
+  // Empty text clears the value; unparsable text reverts to it. In multiple
+  // mode a parsed date is added to the selection instead.
+  const commitInput = () => {
+    if (inputText === null) return
+    if (multiple) {
+      if (draftDate && !isDateSelected(draftDate)) toggleDate(draftDate)
+    } else if (!inputText.trim()) {
+      if (value) onChange?.(null)
+    } else if (draftDate && !(value && isEqual(draftDate, value))) {
+      onChange?.(draftDate)
+    }
+    setInputText(null)
+  }
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const text = event.target.value
+    setInputText(text)
+    const parsed = parseInput(text)
+    if (parsed) {
+      setPanelMonth(parsed)
+      setActiveDate(parsed)
+    }
+    setOpen(true, "trigger")
+  }
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      if (inputText !== null) {
+        commitInput()
+        if (!multiple) setOpen(false, "select")
+      } else if (open) {
+        setOpen(false, "trigger")
+      } else {
+        openPanel(true)
+      }
+    }
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      if (open) {
+        calendar.focusActiveCell()
+      } else {
+        openPanel(true)
+      }
+    }
+    if (event.key === "Escape") {
+      setInputText(null)
+      setOpen(false, "escape")
+    }
+    if (event.key === "Backspace" && multiple && !inputText && !locked) {
+      onDatesChange?.(selectedDates.slice(0, -1))
+    }
+  }
+
+  const setPendingTime = (time: {
+    hours?: number
+    minutes?: number
+    seconds?: number
+  }) => {
+    const base = pendingDate ?? value ?? activeDate
+    setPendingDate(set(base, { ...time, milliseconds: 0 }))
+    setInputText(null)
+  }
+
+  const confirmPending = () => {
+    if (pendingDate && !isDisabled(pendingDate)) {
+      onChange?.(pendingDate)
+    }
+    setInputText(null)
+    closePanel("select")
+  }
+
+  const applyNow = () => {
+    const current = zonedNow(i18n.timeZone)
+    const now = set(current, {
+      seconds: timeOptions?.showSeconds ? getSeconds(current) : 0,
+      milliseconds: 0,
+    })
+    setPanelMonth(now)
+    onChange?.(now)
+    setInputText(null)
+    closePanel("today")
+  }
+
+  const coarserView = availableViews[availableViews.indexOf(view) + 1]
+
+  const zoomOut = () => {
+    if (!coarserView) return
+    calendar.requestFocus()
+    setView(coarserView)
+  }
+
+  // Picking a cell drills down to the next finer view, or commits the value
+  // when the current view is the finest one allowed.
+  const pickCell = (cellView: CellView, cell: Date) => {
+    const end = cellEnd(cellView, cell, adapter)
+    if (isPeriodOutOfRange(cell, end, minDate, maxDate)) return
+    const finerView = availableViews[availableViews.indexOf(cellView) - 1]
+    if (!finerView) {
+      pick(clampDate(cell, minDate, maxDate))
+      return
+    }
+    calendar.requestFocus()
+    setPanelMonth(cell)
+    setActiveDate(cell)
+    setView(finerView)
   }
 
-  const handleIconHover = (
-    event: React.MouseEvent<HTMLButtonElement>,
-    hovering: boolean,
+  const handleCellGridKeyDown = (
+    event: React.KeyboardEvent<HTMLDivElement>,
+    cellView: CellView
   ) => {
-    event.currentTarget.style.backgroundColor = hovering
-      ? "rgba(64,150,255,0.08)"
-      : "transparent"
-    event.currentTarget.style.color = hovering
-      ? "#1677ff"
-      : "rgba(0,0,0,0.45)"
+    const moved = moveActiveCell(activeDate, event.key, cellView, adapter)
+    if (!moved) return
+    event.preventDefault()
+    const next = clampDate(moved, minDate, maxDate)
+    calendar.requestFocus()
+    setActiveDate(next)
+    if (
+      !isEqual(
+        panelStart(cellView, next, adapter),
+        panelStart(cellView, panelMonth, adapter)
+      )
+    ) {
+      setPanelMonth(next)
+    }
   }
 
-  const today = new Date()
+  // Hover styling is kept in state so re-renders don't wipe it.
+  const hoverHandlers = (button: string) => ({
+    onMouseEnter: () => setHoveredButton(button),
+    onMouseLeave: () => setHoveredButton(null),
+  })
+
+  const iconButtonStyle = (button: string, disabled: boolean) => ({
+    ...styles.iconButton,
+    ...(hoveredButton === button && !disabled ? styles.iconButtonHover : {}),
+    ...(disabled ? styles.iconButtonDisabled : {}),
+  })
+
+  const todayDisabled = isDisabled(startOfDay(today))
   const highlighted = open || focused
-  const formattedValue = value ? format(value, "yyyy-MM-dd") : ""
-  const valueLabel = formattedValue || undefined
+  const formattedValue = value ? formatDate(value) : ""
+  const inputValue = inputText ?? formattedValue
 
-  return (
-    <div ref={containerRef} style={styles.container}>
-      <div
-        role="combobox"
-        tabIndex={0}
-        aria-haspopup="dialog"
-        aria-expanded={open}
-        aria-label="Date picker"
-        aria-valuetext={valueLabel}
-        style={{
-          ...styles.input,
-          ...(highlighted ? styles.inputActive : {}),
-        }}
-        onClick={() => setOpen((v) => !v)}
-        onFocus={() => setFocused(true)}
-        onBlur={(event) => {
-          const next = event.relatedTarget as Node | null
-          if (!containerRef.current || !next) {
-            setFocused(false)
-            return
-          }
-          if (!containerRef.current.contains(next)) {
-            setFocused(false)
-          }
-        }}
-        onKeyDown={(event) => {
-          if (event.key === "Enter" || event.key === " ") {
-            event.preventDefault()
-            setOpen((v) => !v)
-          }
-          if (event.key === "Escape") {
-            setOpen(false)
-          }
-        }}
+  const renderCellContent = (
+    date: Date,
+    info: Pick<
+      CalendarCellInfo,
+      "type" | "selected" | "today" | "outside" | "disabled"
+    >,
+    originNode: React.ReactNode
+  ) =>
+    cellRender
+      ? cellRender(date, {
+          ...info,
+          inRange: false,
+          rangeStart: false,
+          rangeEnd: false,
+          originNode,
+        })
+      : originNode
+
+  const zoomOutLabels: Record<CellView, string> = {
+    month: i18n.messages.chooseMonth,
+    year: i18n.messages.chooseYear,
+    decade: i18n.messages.chooseDecade,
+  }
+
+  const renderHeaderLabel = (text: string) =>
+    coarserView && coarserView !== "day" ? (
+      <button
+        type="button"
+        id={labelId}
+        aria-live="polite"
+        title={zoomOutLabels[coarserView]}
+        style={{ ...styles.headerLabel, ...styles.headerLabelButton }}
+        onClick={zoomOut}
       >
-        <span style={styles.suffix} aria-hidden="true">
-          <svg
-            width="16"
-            height="16"
-            viewBox="0 0 1024 1024"
-            fill="currentColor"
+        {text}
+      </button>
+    ) : (
+      <div id={labelId} style={styles.headerLabel} aria-live="polite">
+        {text}
+      </div>
+    )
+
+  const renderCellPanel = (cellView: CellView) => {
+    const start = panelStart(cellView, panelMonth, adapter)
+    const end = panelEnd(cellView, panelMonth, adapter)
+    const span = panelYears[cellView]
+    const cells = panelCells(cellView, panelMonth, adapter)
+    const rows: Date[][] = []
+    for (let i = 0; i < cells.length; i += cellsPerRow) {
+      rows.push(cells.slice(i, i + cellsPerRow))
+    }
+    const isInPanel = (cell: Date) => !isBefore(cell, start) && !isAfter(cell, end)
+    const sameCell = (a: Date, b: Date) => isSameCell(cellView, a, b, adapter)
+    const tabbableCell =
+      cells.find((cell) => isInPanel(cell) && sameCell(cell, activeDate)) ??
+      start
+    const previousDisabled = isPeriodOutOfRange(
+      adapter.add(start, { years: -span }),
+      adapter.add(end, { years: -span }),
+      minDate,
+      maxDate
+    )
+    const nextDisabled = isPeriodOutOfRange(
+      adapter.add(start, { years: span }),
+      adapter.add(end, { years: span }),
+      minDate,
+      maxDate
+    )
+    const navLabels: Record<CellView, [string, string]> = {
+      month: [i18n.messages.previousYear, i18n.messages.nextYear],
+      year: [i18n.messages.previousDecade, i18n.messages.nextDecade],
+      decade: [i18n.messages.previousCentury, i18n.messages.nextCentury],
+    }
+    const cellLabel = (cell: Date) =>
+      cellView === "month"
+        ? adapter.format(cell, i18n.formats.monthCell, { locale: i18n.locale })
+        : cellView === "year"
+          ? String(adapter.getYear(cell))
+          : `${adapter.getYear(cell)}–${adapter.getYear(cell) + 9}`
+
+    return (
+      <>
+        <div style={styles.header}>
+          <button
+            type="button"
+            disabled={previousDisabled}
+            style={iconButtonStyle("previous", previousDisabled)}
+            {...hoverHandlers("previous")}
+            onClick={() => calendar.shiftPanel({ years: -span })}
+            aria-label={navLabels[cellView][0]}
           >
-            <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
-          </svg>
-        </span>
-        <div style={styles.field}>
-          {formattedValue ? (
-            <span style={styles.value}>{formattedValue}</span>
-          ) : (
-            <span style={styles.placeholder}>{placeholder}</span>
+            <span style={styles.iconGlyph}>«</span>
+          </button>
+          {renderHeaderLabel(
+            cellView === "month"
+              ? String(adapter.getYear(start))
+              : `${adapter.getYear(start)}–${adapter.getYear(end)}`
           )}
+          <button
+            type="button"
+            disabled={nextDisabled}
+            style={iconButtonStyle("next", nextDisabled)}
+            {...hoverHandlers("next")}
+            onClick={() => calendar.shiftPanel({ years: span })}
+            aria-label={navLabels[cellView][1]}
+          >
+            <span style={styles.iconGlyph}>»</span>
+          </button>
         </div>
-        <div style={styles.suffix}>
-          {value && (
+
+        <div
+          ref={calendar.gridRef}
+          role="grid"
+          aria-labelledby={labelId}
+          aria-multiselectable={multiple || undefined}
+          style={styles.cellGrid}
+          onKeyDown={(event) => handleCellGridKeyDown(event, cellView)}
+        >
+          {rows.map((row, rowIndex) => (
+            <div key={rowIndex} role="row" style={styles.row}>
+              {row.map((cell) => {
+                const selected = multiple
+                  ? selectedDates.some((d) => sameCell(cell, d))
+                  : !!selectedDate && sameCell(cell, selectedDate)
+                const isCurrent = sameCell(cell, today)
+                const disabled =
+                  isPeriodOutOfRange(
+                    cell,
+                    cellEnd(cellView, cell, adapter),
+                    minDate,
+                    maxDate
+                  ) ||
+                  (atMaxCount && !selected && cellView === availableViews[0])
+                const hovered =
+                  !selected &&
+                  !disabled &&
+                  !!hoveredDate &&
+                  isEqual(cell, hoveredDate)
+                const baseStyle = {
+                  ...styles.cellBtn,
+                  backgroundColor: selected
+                    ? themeVars.colorPrimary
+                    : hovered
+                      ? themeVars.colorPrimaryBgHover
+                      : "transparent",
+                  color: selected
+                    ? themeVars.colorTextOnPrimary
+                    : isInPanel(cell)
+                      ? themeVars.colorText
+                      : themeVars.colorTextDisabled,
+                  boxShadow:
+                    isCurrent && !selected
+                      ? `inset 0 0 0 1px ${themeVars.colorPrimaryHover}`
+                      : "none",
+                  ...(disabled && !selected ? styles.dayBtnDisabled : {}),
+                } satisfies React.CSSProperties
+                return (
+                  <button
+                    key={cell.getTime()}
+                    type="button"
+                    role="gridcell"
+                    tabIndex={isEqual(cell, tabbableCell) ? 0 : -1}
+                    aria-selected={selected}
+                    aria-disabled={disabled || undefined}
+                    aria-label={
+                      cellView === "month"
+                        ? adapter.format(cell, i18n.formats.month, {
+                            locale: i18n.locale,
+                          })
+                        : cellLabel(cell)
+                    }
+                    style={baseStyle}
+                    onClick={() => pickCell(cellView, cell)}
+                    onFocus={() => {
+                      if (!sameCell(cell, activeDate)) {
+                        setActiveDate(cell)
+                      }
+                    }}
+                    onMouseEnter={() => setHoveredDate(cell)}
+                    onMouseLeave={() => setHoveredDate(null)}
+                  >
+                    {renderCellContent(
+                      cell,
+                      {
+                        type: cellView,
+                        selected,
+                        today: isCurrent,
+                        outside: !isInPanel(cell),
+                        disabled,
+                      },
+                      cellLabel(cell)
+                    )}
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+      </>
+    )
+  }
+
+  const renderTags = () => {
+    const formatTag = (date: Date) =>
+      adapter.format(date, i18n.formats.date, { locale: i18n.locale })
+    const visible = selectedDates.slice(0, maxTagCount)
+    const hidden = selectedDates.slice(maxTagCount)
+    return (
+      <>
+        {visible.map((date) => (
+          <span key={date.getTime()} style={styles.tag}>
+            {formatTag(date)}
+            {!locked && (
+              <button
+                type="button"
+                style={styles.tagRemove}
+                aria-label={`${i18n.messages.removeDate} ${formatTag(date)}`}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={(event) => {
+                  event.stopPropagation()
+                  toggleDate(date)
+                }}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {hidden.length > 0 && (
+          <span
+            style={{ ...styles.tag, ...styles.tagOverflow }}
+            title={hidden.map(formatTag).join(", ")}
+          >
+            +{hidden.length}
+          </span>
+        )}
+      </>
+    )
+  }
+
+  const renderTimeColumn = (
+    label: string,
+    options: { value: number; label: string }[],
+    selected: number | null,
+    onSelect: (value: number) => void
+  ) => {
+    const selectedIndex = options.findIndex((o) => o.value === selected)
+    return (
+      <div
+        role="listbox"
+        aria-label={label}
+        style={styles.timeColumn}
+        onKeyDown={(event) => {
+          if (event.key !== "ArrowUp" && event.key !== "ArrowDown") return
+          event.preventDefault()
+          const nextIndex = Math.min(
+            options.length - 1,
+            Math.max(0, selectedIndex + (event.key === "ArrowDown" ? 1 : -1))
+          )
+          onSelect(options[nextIndex].value)
+          const buttons =
+            event.currentTarget.querySelectorAll<HTMLButtonElement>("button")
+          buttons[nextIndex]?.focus()
+        }}
+      >
+        {options.map((option, index) => {
+          const isSelected = index === selectedIndex
+          const isTabbable = selectedIndex === -1 ? index === 0 : isSelected
+          return (
             <button
+              key={option.value}
               type="button"
-              style={styles.clearButton}
-              onMouseDown={(event) => event.preventDefault()}
-              onClick={(event) => {
-                event.stopPropagation()
-                onChange?.(null)
+              role="option"
+              aria-selected={isSelected}
+              tabIndex={isTabbable ? 0 : -1}
+              style={{
+                ...styles.timeCell,
+                ...(isSelected ? styles.timeCellSelected : {}),
               }}
-              aria-label="clear date"
+              onClick={() => onSelect(option.value)}
             >
-              ×
+              {option.label}
             </button>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const renderTimePanel = (options: DatePickerTimeOptions) => {
+    const hours = selectedDate ? getHours(selectedDate) : null
+    const minutes = selectedDate ? getMinutes(selectedDate) : null
+    const seconds = selectedDate ? getSeconds(selectedDate) : null
+    const isPm = hours !== null && hours >= 12
+    const hourOptions = options.use12Hours
+      ? stepValues(12, options.hourStep).map((h) => ({
+          value: h,
+          label: pad(h === 0 ? 12 : h),
+        }))
+      : stepValues(24, options.hourStep).map((h) => ({
+          value: h,
+          label: pad(h),
+        }))
+    const meridiemOptions = [0, 12].map((h) => ({
+      value: h,
+      label: format(set(new Date(), { hours: h }), "a", {
+        locale: i18n.locale,
+      }),
+    }))
+    return (
+      <div ref={timePanelRef} style={styles.timePanel}>
+        {renderTimeColumn(
+          i18n.messages.hours,
+          hourOptions,
+          hours === null ? null : options.use12Hours ? hours % 12 : hours,
+          (h) =>
+            setPendingTime({ hours: options.use12Hours && isPm ? h + 12 : h })
+        )}
+        {renderTimeColumn(
+          i18n.messages.minutes,
+          stepValues(60, options.minuteStep).map((m) => ({
+            value: m,
+            label: pad(m),
+          })),
+          minutes,
+          (m) => setPendingTime({ minutes: m })
+        )}
+        {options.showSeconds &&
+          renderTimeColumn(
+            i18n.messages.seconds,
+            stepValues(60, options.secondStep).map((sec) => ({
+              value: sec,
+              label: pad(sec),
+            })),
+            seconds,
+            (sec) => setPendingTime({ seconds: sec })
+          )}
+        {options.use12Hours &&
+          renderTimeColumn(
+            i18n.messages.meridiem,
+            meridiemOptions,
+            hours === null ? null : isPm ? 12 : 0,
+            (offset) =>
+              setPendingTime({ hours: ((hours ?? 0) % 12) + offset })
           )}
-          <svg
-            width="14"
-            height="14"
-            viewBox="0 0 1024 1024"
-            fill="currentColor"
-            aria-hidden="true"
-          >
-            <path d="m512 672 320-320-60.8-60.8L512 550.4 252.8 291.2 192 352z" />
-          </svg>
-        </div>
       </div>
+    )
+  }
 
-      {open && (
-        <div style={styles.pop}>
-          <div style={styles.header}>
-            <button
-              type="button"
-              style={styles.iconButton}
-              onMouseEnter={(event) => handleIconHover(event, true)}
-              onMouseLeave={(event) => handleIconHover(event, false)}
-              onClick={() => setPanelMonth(add(panelMonth, { years: -1 }))}
-              aria-label="previous year"
-            >
-              <span style={styles.iconGlyph}>«</span>
-            </button>
-            <button
-              type="button"
-              style={styles.iconButton}
-              onMouseEnter={(event) => handleIconHover(event, true)}
-              onMouseLeave={(event) => handleIconHover(event, false)}
-              onClick={() => setPanelMonth(add(panelMonth, { months: -1 }))}
-              aria-label="previous month"
-            >
-              <span style={styles.iconGlyph}>‹</span>
-            </button>
-            <div style={styles.headerLabel}>{format(panelMonth, "MMMM yyyy")}</div>
-            <button
-              type="button"
-              style={styles.iconButton}
-              onMouseEnter={(event) => handleIconHover(event, true)}
-              onMouseLeave={(event) => handleIconHover(event, false)}
-              onClick={() => setPanelMonth(add(panelMonth, { months: 1 }))}
-              aria-label="next month"
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        ...styles.container,
+        ...sizeVars,
+        ...(inline ? styles.containerInline : {}),
+      }}
+    >
+      {!inline && (
+        <div
+          style={{
+            ...styles.input,
+            ...(size === "small" ? styles.inputSmall : {}),
+            ...(size === "large" ? styles.inputLarge : {}),
+            ...(highlighted ? styles.inputActive : {}),
+            ...(status === "warning" ? styles.inputWarning : {}),
+            ...(inputInvalid || status === "error" ? styles.inputError : {}),
+            ...(disabled ? styles.inputDisabled : {}),
+          }}
+          onClick={() => {
+            if (!open) {
+              openPanel(false)
+            }
+            inputRef.current?.focus()
+          }}
+          onFocus={() => setFocused(true)}
+          onBlur={(event) => {
+            // Focus moving into the popup, portalled or not, stays inside.
+            if (!contains(event.relatedTarget as Node | null)) {
+              setFocused(false)
+              commitInput()
+            }
+          }}
+        >
+          <span style={styles.suffix} aria-hidden="true">
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 1024 1024"
+              fill="currentColor"
             >
-              <span style={styles.iconGlyph}>›</span>
-            </button>
-            <button
-              type="button"
-              style={styles.iconButton}
-              onMouseEnter={(event) => handleIconHover(event, true)}
-              onMouseLeave={(event) => handleIconHover(event, false)}
-              onClick={() => setPanelMonth(add(panelMonth, { years: 1 }))}
-              aria-label="next year"
+              <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
+            </svg>
+          </span>
+          <div style={{ ...styles.field, ...(multiple ? styles.tagList : {}) }}>
+            {multiple && renderTags()}
+            <input
+              ref={inputRef}
+              role="combobox"
+              {...getTriggerProps()}
+              aria-label={i18n.messages.datePicker}
+              aria-invalid={inputInvalid || status === "error" || undefined}
+              disabled={disabled}
+              readOnly={readOnly}
+              autoComplete="off"
+              style={{
+                ...styles.textInput,
+                ...(multiple ? styles.tagInput : {}),
+              }}
+              value={inputValue}
+              placeholder={
+                selectedDates.length > 0
+                  ? undefined
+                  : (placeholder ?? i18n.messages.selectDate)
+              }
+              onChange={handleInputChange}
+              onKeyDown={handleInputKeyDown}
+            />
+          </div>
+          <div style={styles.suffix}>
+            {(value || selectedDates.length > 0) && !locked && (
+              <button
+                type="button"
+                style={{
+                  ...styles.clearButton,
+                  ...(hoveredButton === "clear" ? styles.clearButtonHover : {}),
+                }}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={(event) => {
+                  event.stopPropagation()
+                  setInputText(null)
+                  setHoveredButton(null)
+                  onChange?.(null)
+                  onDatesChange?.([])
+                }}
+                {...hoverHandlers("clear")}
+                aria-label={i18n.messages.clearDate}
+              >
+                ×
+              </button>
+            )}
+            <svg
+              width="14"
+              height="14"
+              viewBox="0 0 1024 1024"
+              fill="currentColor"
+              aria-hidden="true"
             >
-              <span style={styles.iconGlyph}>»</span>
-            </button>
+              <path d="m512 672 320-320-60.8-60.8L512 550.4 252.8 291.2 192 352z" />
+            </svg>
           </div>
+        </div>
+      )}
+
+      {open &&
+        renderPopup(
+          <div
+            role={inline ? "group" : "dialog"}
+            aria-label={i18n.messages.chooseDate}
+            style={{
+              ...styles.pop,
+              ...(timeOptions ? styles.popWithTime : {}),
+              ...(inline ? styles.popInline : {}),
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Escape" && !inline) {
+                event.stopPropagation()
+                setInputText(null)
+                closePanel("escape")
+              }
+            }}
+          >
+            <div style={styles.panels}>
+              <div style={styles.datePanel}>
+                {view === "day" ? (
+                  <>
+                    <div style={styles.header}>
+                      <button
+                        {...calendar.getNavButtonProps("previousYear")}
+                        style={iconButtonStyle(
+                          "previousYear",
+                          calendar.navigation.previousYear
+                        )}
+                        {...hoverHandlers("previousYear")}
+                        aria-label={i18n.messages.previousYear}
+                      >
+                        <span style={styles.iconGlyph}>«</span>
+                      </button>
+                      <button
+                        {...calendar.getNavButtonProps("previousMonth")}
+                        style={iconButtonStyle(
+                          "previousMonth",
+                          calendar.navigation.previousMonth
+                        )}
+                        {...hoverHandlers("previousMonth")}
+                        aria-label={i18n.messages.previousMonth}
+                      >
+                        <span style={styles.iconGlyph}>‹</span>
+                      </button>
+                      {renderHeaderLabel(
+                        adapter.format(panelMonth, i18n.formats.monthHeader, {
+                          locale: i18n.locale,
+                        })
+                      )}
+                      <button
+                        {...calendar.getNavButtonProps("nextMonth")}
+                        style={iconButtonStyle(
+                          "nextMonth",
+                          calendar.navigation.nextMonth
+                        )}
+                        {...hoverHandlers("nextMonth")}
+                        aria-label={i18n.messages.nextMonth}
+                      >
+                        <span style={styles.iconGlyph}>›</span>
+                      </button>
+                      <button
+                        {...calendar.getNavButtonProps("nextYear")}
+                        style={iconButtonStyle(
+                          "nextYear",
+                          calendar.navigation.nextYear
+                        )}
+                        {...hoverHandlers("nextYear")}
+                        aria-label={i18n.messages.nextYear}
+                      >
+                        <span style={styles.iconGlyph}>»</span>
+                      </button>
+                    </div>
 
-          <div style={styles.gridHead}>
-            {weekDays.map((d) => (
-              <div key={d} style={{ textAlign: "center" }}>
-                {d}
+                    <div
+                      role="grid"
+                      aria-labelledby={labelId}
+                      aria-multiselectable={multiple || undefined}
+                    >
+                      <div
+                        role="row"
+                        style={{
+                          ...styles.gridHead,
+                          ...(showWeekNumber ? styles.weekNumberColumns : {}),
+                        }}
+                      >
+                        {showWeekNumber && (
+                          <div
+                            role="columnheader"
+                            aria-label={i18n.messages.weekNumber}
+                            style={{ textAlign: "center" }}
+                          >
+                            #
+                          </div>
+                        )}
+                        {weekDays.map((d, i) => (
+                          <div key={i} role="columnheader" style={{ textAlign: "center" }}>
+                            {d}
+                          </div>
+                        ))}
+                      </div>
+
+                      <div
+                        ref={calendar.gridRef}
+                        role="rowgroup"
+                        style={{
+                          ...styles.grid,
+                          ...(showWeekNumber ? styles.weekNumberColumns : {}),
+                        }}
+                        {...calendar.getGridProps()}
+                      >
+                        {calendar.months[0].weeks.map((week, weekIndex) => (
+                          <div key={weekIndex} role="row" style={styles.row}>
+                            {showWeekNumber && (
+                              <div role="rowheader" style={styles.weekNumber}>
+                                {weekNumberOf(
+                                  week[0].date,
+                                  weekNumbering,
+                                  i18n.locale,
+                                  weekStartsOn
+                                )}
+                              </div>
+                            )}
+                            {week.map((day, i) => {
+                              const baseBtnStyle = {
+                                ...styles.dayBtn,
+                                backgroundColor: day.selected
+                                  ? themeVars.colorPrimary
+                                  : day.hovered
+                                    ? themeVars.colorPrimaryBgHover
+                                    : "transparent",
+                                color: day.selected
+                                  ? themeVars.colorTextOnPrimary
+                                  : day.inMonth || day.hovered
+                                    ? themeVars.colorText
+                                    : themeVars.colorTextDisabled,
+                                boxShadow:
+                                  day.today && !day.selected
+                                    ? `inset 0 0 0 1px ${themeVars.colorPrimaryHover}`
+                                    : "none",
+                                ...(day.disabled && !day.selected
+                                  ? styles.dayBtnDisabled
+                                  : {}),
+                              } satisfies React.CSSProperties
+                              return (
+                                <button
+                                  key={i}
+                                  {...calendar.getDayProps(day)}
+                                  aria-label={adapter.format(day.date, i18n.formats.dayLabel, {
+                                    locale: i18n.locale,
+                                  })}
+                                  style={baseBtnStyle}
+                                >
+                                  {renderCellContent(
+                                    day.date,
+                                    {
+                                      type: "day",
+                                      selected: day.selected,
+                                      today: day.today,
+                                      outside: !day.inMonth,
+                                      disabled: day.disabled,
+                                    },
+                                    adapter.format(day.date, "d")
+                                  )}
+                                </button>
+                              )
+                            })}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  renderCellPanel(view)
+                )}
               </div>
-            ))}
-          </div>
+              {timeOptions && renderTimePanel(timeOptions)}
+            </div>
 
-          <div style={styles.grid}>
-            {days.map((d, i) => {
-              const inMonth = isSameMonth(d, panelMonth)
-              const isSelected = !!value && isEqual(d, value)
-              const isToday = isSameDay(d, today)
-              const baseBtnStyle = {
-                ...styles.dayBtn,
-                backgroundColor: isSelected ? "#1677ff" : "transparent",
-                color: isSelected
-                  ? "#fff"
-                  : inMonth
-                    ? "rgba(0,0,0,0.88)"
-                    : "rgba(0,0,0,0.25)",
-                boxShadow: isToday && !isSelected ? "inset 0 0 0 1px #4096ff" : "none",
-              } satisfies React.CSSProperties
-              return (
+            {timeOptions ? (
+              <div style={styles.timeFooter}>
                 <button
-                  key={i}
-                  onClick={() => pick(new Date(d))}
-                  style={baseBtnStyle}
-                  onMouseEnter={(event) => {
-                    if (!isSelected) {
-                      event.currentTarget.style.backgroundColor =
-                        "rgba(64,150,255,0.1)"
-                      event.currentTarget.style.color = "rgba(0,0,0,0.88)"
-                    }
+                  type="button"
+                  disabled={todayDisabled}
+                  style={{
+                    ...styles.nowButton,
+                    ...(todayDisabled ? styles.footerDisabled : {}),
                   }}
-                  onMouseLeave={(event) => {
-                    event.currentTarget.style.backgroundColor =
-                      baseBtnStyle.backgroundColor as string
-                    event.currentTarget.style.color = baseBtnStyle.color as string
+                  onClick={applyNow}
+                >
+                  {i18n.messages.now}
+                </button>
+                <button
+                  type="button"
+                  disabled={!pendingDate}
+                  style={{
+                    ...styles.okButton,
+                    ...(!pendingDate ? styles.okButtonDisabled : {}),
                   }}
+                  onClick={confirmPending}
                 >
-                  {format(d, "d")}
+                  {i18n.messages.ok}
                 </button>
-              )
-            })}
-          </div>
-
-          <div
-            style={styles.footer}
-            onClick={() => {
-              const n = new Date()
-              setPanelMonth(n)
-              onChange?.(n)
-              setOpen(false)
-            }}
-          >
-            Today
+              </div>
+            ) : (
+              <button
+                type="button"
+                disabled={todayDisabled}
+                style={{
+                  ...styles.footer,
+                  ...(todayDisabled ? styles.footerDisabled : {}),
+                }}
+                onClick={() => {
+                  const n = startOfDay(zonedNow(i18n.timeZone))
+                  setPanelMonth(n)
+                  setInputText(null)
+                  if (multiple) {
+                    toggleDate(n)
+                    setActiveDate(n)
+                    return
+                  }
+                  onChange?.(n)
+                  closePanel("today")
+                }}
+              >
+                {i18n.messages.today}
+              </button>
+            )}
           </div>
-        </div>
-      )}
+        )}
+      {formField.renderInputs()}
     </div>
   )
 }
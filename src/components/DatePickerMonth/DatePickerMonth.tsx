@@ -1,39 +1,102 @@
-import React, { useEffect, useMemo, useRef, useState } from "react"
-import { format, isSameMonth, setMonth, setYear, startOfMonth } from "date-fns"
+import React, { useEffect, useId, useRef, useState } from "react"
+import {
+  fiscalYearLabel,
+  useMonthCalendar,
+  usePickerField,
+  usePickerPopup,
+  zonedNow,
+} from "../Calendar"
+import type {
+  CalendarCellRender,
+  CalendarMonthCell,
+  PickerOpenChangeReason,
+  PickerPopupProps,
+  PickerTriggerProps,
+  PickerValueProps,
+  UsePickerFieldOptions,
+} from "../Calendar"
+import { useLocale } from "../LocaleProvider"
+import type { PickerLocaleProps } from "../LocaleProvider"
+import { themeVars } from "../ThemeProvider"
 
-export type DatePickerMonthProps = {
-  value?: Date | null
-  onChange?: (month: Date | null) => void
-  placeholder?: string
-}
+export type DatePickerMonthProps = PickerLocaleProps &
+  PickerPopupProps &
+  PickerTriggerProps &
+  PickerValueProps<Date | null, string> & {
+    placeholder?: string
+    minDate?: Date
+    maxDate?: Date
+    /** Called with the first day of each month; true disables that month. */
+    disabledDate?: (date: Date) => boolean
+    /**
+     * Month index (0 = January) the fiscal year starts in. The panel then
+     * shows one fiscal year, e.g. "FY27" for April 2026 – March 2027, with
+     * each row holding one fiscal quarter.
+     */
+    fiscalYearStartMonth?: number
+    /** Custom content for month cells. */
+    cellRender?: CalendarCellRender
+    /**
+     * Renders the panel in the page flow, always visible and without the
+     * trigger.
+     */
+    inline?: boolean
+  }
 
 const styles: Record<string, React.CSSProperties> = {
   container: {
     position: "relative",
     width: 320,
-    fontFamily:
-      '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", sans-serif',
-    fontSize: 14,
-    color: "rgba(0,0,0,0.88)",
+    fontFamily: themeVars.fontFamily,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+  },
+  containerInline: {
+    width: "fit-content",
   },
   input: {
     display: "flex",
     alignItems: "center",
-    border: "1px solid #d9d9d9",
-    borderRadius: 6,
+    borderWidth: 1,
+    borderStyle: "solid",
+    borderColor: themeVars.colorBorder,
+    borderRadius: themeVars.borderRadius,
     padding: "4px 12px",
-    background: "#fff",
+    background: themeVars.colorBgContainer,
     height: 32,
     cursor: "pointer",
     transition: "border-color .3s, box-shadow .3s",
     gap: 8,
   },
   inputActive: {
-    borderColor: "#4096ff",
-    boxShadow: "0 0 0 2px rgba(24, 144, 255, 0.2)",
+    borderColor: themeVars.colorPrimaryHover,
+    boxShadow: `0 0 0 2px ${themeVars.colorPrimaryOutline}`,
+  },
+  inputError: {
+    borderColor: themeVars.colorError,
+    boxShadow: `0 0 0 2px ${themeVars.colorErrorOutline}`,
+  },
+  inputWarning: {
+    borderColor: themeVars.colorWarning,
+    boxShadow: `0 0 0 2px ${themeVars.colorWarningOutline}`,
+  },
+  inputSmall: {
+    height: 24,
+    padding: "0 8px",
+  },
+  inputLarge: {
+    height: 40,
+    padding: "6px 12px",
+  },
+  inputDisabled: {
+    borderColor: themeVars.colorBorder,
+    boxShadow: "none",
+    background: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
   },
   icon: {
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
     display: "flex",
     alignItems: "center",
     justifyContent: "center",
@@ -51,7 +114,7 @@ const styles: Record<string, React.CSSProperties> = {
     textOverflow: "ellipsis",
   },
   placeholder: {
-    color: "rgba(0,0,0,0.25)",
+    color: themeVars.colorTextDisabled,
     lineHeight: "22px",
     whiteSpace: "nowrap",
     overflow: "hidden",
@@ -61,7 +124,7 @@ const styles: Record<string, React.CSSProperties> = {
     display: "flex",
     alignItems: "center",
     gap: 6,
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
   },
   clearButton: {
     display: "inline-flex",
@@ -71,24 +134,27 @@ const styles: Record<string, React.CSSProperties> = {
     height: 16,
     borderRadius: "50%",
     border: "none",
-    background: "rgba(0,0,0,0.06)",
-    color: "rgba(0,0,0,0.45)",
+    backgroundColor: themeVars.colorFill,
+    color: themeVars.colorTextTertiary,
     cursor: "pointer",
     fontSize: 12,
     transition: "background-color .2s, color .2s",
   },
+  clearButtonHover: {
+    backgroundColor: themeVars.colorFillHover,
+    color: themeVars.colorTextSecondary,
+  },
   pop: {
-    position: "absolute",
-    zIndex: 60,
-    top: "100%",
-    marginTop: 4,
-    background: "#fff",
-    border: "1px solid #eee",
-    borderRadius: 8,
+    background: themeVars.colorBgElevated,
+    border: `1px solid ${themeVars.colorBorderSecondary}`,
+    borderRadius: themeVars.borderRadiusLG,
     width: 280,
-    boxShadow: "0 6px 16px rgba(0,0,0,.08)",
+    boxShadow: themeVars.boxShadow,
     padding: 16,
   },
+  popInline: {
+    boxShadow: "none",
+  },
   header: {
     display: "flex",
     alignItems: "center",
@@ -100,7 +166,7 @@ const styles: Record<string, React.CSSProperties> = {
     flex: 1,
     textAlign: "center",
     fontSize: 16,
-    color: "rgba(0,0,0,0.88)",
+    color: themeVars.colorText,
   },
   iconButton: {
     width: 24,
@@ -109,225 +175,396 @@ const styles: Record<string, React.CSSProperties> = {
     alignItems: "center",
     justifyContent: "center",
     border: "none",
-    background: "transparent",
-    color: "rgba(0,0,0,0.45)",
-    borderRadius: 4,
+    backgroundColor: "transparent",
+    color: themeVars.colorTextTertiary,
+    borderRadius: themeVars.borderRadiusSM,
     cursor: "pointer",
     transition: "background-color .2s, color .2s",
     padding: 0,
     fontSize: 12,
     lineHeight: "24px",
   },
+  iconButtonHover: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorPrimary,
+  },
+  iconButtonDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   grid: {
     display: "grid",
     gridTemplateColumns: "repeat(3, 1fr)",
     gap: 8,
   },
+  row: {
+    display: "contents",
+  },
   monthBtn: {
     border: "none",
-    borderRadius: 6,
-    background: "transparent",
+    borderRadius: themeVars.borderRadius,
+    backgroundColor: "transparent",
     cursor: "pointer",
-    height: 36,
-    fontSize: 14,
-    color: "rgba(0,0,0,0.88)",
+    height: `calc(${themeVars.cellSize} + 4px)`,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
     transition:
       "background-color .2s, color .2s, box-shadow .2s, border-color .2s",
   },
+  monthBtnDisabled: {
+    backgroundColor: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
 }
 
-const monthIndexes = Array.from({ length: 12 }, (_, idx) => idx)
+type FieldOptions = UsePickerFieldOptions<Date | null, string>
 
 export const DatePickerMonth: React.FC<DatePickerMonthProps> = ({
-  value = null,
+  value: valueProp,
   onChange,
-  placeholder = "Select month",
+  valueFormat,
+  name,
+  defaultValue,
+  required,
+  serialize,
+  ref,
+  placeholder,
+  minDate,
+  maxDate,
+  disabledDate,
+  fiscalYearStartMonth = 0,
+  cellRender,
+  inline = false,
+  open: openProp,
+  defaultOpen,
+  onOpenChange,
+  getPopupContainer,
+  disabled = false,
+  readOnly = false,
+  size = "middle",
+  status,
+  locale,
+  messages,
+  formats,
+  timeZone,
+  dateAdapter,
 }) => {
-  const containerRef = useRef<HTMLDivElement | null>(null)
-  const [open, setOpen] = useState(false)
-  const [panelYear, setPanelYear] = useState(
-    value ? value.getFullYear() : new Date().getFullYear()
-  )
-  const [hovering, setHovering] = useState<number | null>(null)
+  const i18n = useLocale({
+    locale,
+    messages,
+    formats,
+    timeZone,
+    dateAdapter,
+  })
+  const { adapter } = i18n
+  const triggerRef = useRef<HTMLDivElement | null>(null)
+  const formField = usePickerField({
+    name,
+    defaultValue,
+    required,
+    serialize,
+    ref: ref as FieldOptions["ref"],
+    value: valueProp,
+    valueFormat,
+    timeZone: i18n.timeZone,
+    emptyValue: null,
+    onChange: onChange as FieldOptions["onChange"],
+    formatText: (month) => (month ? formatMonth(month) : ""),
+    toDates: (month) => [month],
+    getFocusTarget: () =>
+      triggerRef.current ??
+      containerRef.current?.querySelector<HTMLElement>(
+        '[role="gridcell"][tabindex="0"]'
+      ) ??
+      null,
+  })
+  const value = formField.value
+  const today = zonedNow(i18n.timeZone)
+  const emitMonth = formField.setValue
+  const labelId = useId()
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const calendar = useMonthCalendar({
+    fiscalYearStartMonth,
+    minDate,
+    maxDate,
+    isMonthDisabled: disabledDate,
+    isMonthSelected: (monthDate) =>
+      !!value && adapter.isSameMonth(monthDate, value),
+    onSelect: (monthDate) => {
+      emitMonth(monthDate)
+      closePanel("select")
+    },
+    defaultMonth: value,
+    today,
+    adapter,
+  })
+  const { setPanelMonth, setHoveredDate } = calendar
+  const {
+    containerRef,
+    open,
+    setOpen,
+    sizeVars,
+    getTriggerProps,
+    renderPopup,
+  } = usePickerPopup({
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    getPopupContainer,
+    inline,
+    disabled,
+    readOnly,
+    size,
+    onOutsideClick: () => setHoveredDate(null),
+    onOpenSync: (isOpen) =>
+      isOpen ? calendar.showMonth(value ?? today) : setHoveredDate(null),
+  })
 
   useEffect(() => {
     if (value) {
-      setPanelYear(value.getFullYear())
+      setPanelMonth(adapter.startOfMonth(value))
     }
-  }, [value])
+  }, [value, setPanelMonth, adapter])
 
-  useEffect(() => {
-    const handleClick = (event: MouseEvent) => {
-      if (
-        open &&
-        containerRef.current &&
-        !containerRef.current.contains(event.target as Node)
-      ) {
-        setOpen(false)
-        setHovering(null)
-      }
-    }
-    document.addEventListener("mousedown", handleClick)
-    return () => document.removeEventListener("mousedown", handleClick)
-  }, [open])
-
-  const months = useMemo(() => {
-    const base = setYear(startOfMonth(new Date()), panelYear)
-    return monthIndexes.map((monthIndex) => setMonth(base, monthIndex))
-  }, [panelYear])
+  const locked = disabled || readOnly
 
-  const formattedValue = value ? format(value, "MMMM yyyy") : ""
-
-  const handleIconHover = (
-    event: React.MouseEvent<HTMLButtonElement>,
-    hoveringButton: boolean
-  ) => {
-    event.currentTarget.style.backgroundColor = hoveringButton
-      ? "rgba(64,150,255,0.08)"
-      : "transparent"
-    event.currentTarget.style.color = hoveringButton
-      ? "#1677ff"
-      : "rgba(0,0,0,0.45)"
+  const openPanel = () => {
+    if (locked) return
+    calendar.showMonth(value ?? today)
+    calendar.requestFocus()
+    setOpen(true, "trigger")
   }
 
-  const selectMonth = (monthDate: Date) => {
-    onChange?.(startOfMonth(monthDate))
-    setOpen(false)
-    setHovering(null)
+  const closePanel = (reason: PickerOpenChangeReason) => {
+    setOpen(false, reason)
+    setHoveredDate(null)
+    triggerRef.current?.focus()
   }
 
-  return (
-    <div ref={containerRef} style={styles.container}>
-      <div
-        role="combobox"
-        tabIndex={0}
-        aria-haspopup="dialog"
-        aria-expanded={open}
-        aria-label="Month picker"
-        style={{
-          ...styles.input,
-          ...(open ? styles.inputActive : {}),
-        }}
-        onClick={() => setOpen((prev) => !prev)}
-        onKeyDown={(event) => {
-          if (event.key === "Enter" || event.key === " ") {
-            event.preventDefault()
-            setOpen((prev) => !prev)
-          }
-          if (event.key === "Escape") {
-            setOpen(false)
-            setHovering(null)
-          }
-        }}
-      >
-        <span style={styles.icon} aria-hidden="true">
-          <svg
-            width="16"
-            height="16"
-            viewBox="0 0 1024 1024"
-            fill="currentColor"
-          >
-            <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
-          </svg>
-        </span>
-        <div style={styles.field}>
-          {formattedValue ? (
-            <span style={styles.value}>{formattedValue}</span>
-          ) : (
-            <span style={styles.placeholder}>{placeholder}</span>
-          )}
-        </div>
-        <div style={styles.suffix}>
-          {value && (
-            <button
-              type="button"
-              style={styles.clearButton}
-              onMouseDown={(event) => event.preventDefault()}
-              onClick={(event) => {
-                event.stopPropagation()
-                onChange?.(null)
-                setHovering(null)
-              }}
-              onMouseEnter={(event) => {
-                event.currentTarget.style.backgroundColor = "rgba(0,0,0,0.12)"
-                event.currentTarget.style.color = "rgba(0,0,0,0.65)"
-              }}
-              onMouseLeave={(event) => {
-                event.currentTarget.style.backgroundColor = "rgba(0,0,0,0.06)"
-                event.currentTarget.style.color = "rgba(0,0,0,0.45)"
-              }}
-              aria-label="clear month"
-            >
-              ×
-            </button>
-          )}
-          <svg
-            width="14"
-            height="14"
-            viewBox="0 0 1024 1024"
-            fill="currentColor"
-            aria-hidden="true"
-          >
-            <path d="m512 672 320-320-60.8-60.8L512 550.4 252.8 291.2 192 352z" />
-          </svg>
-        </div>
-      </div>
+  const renderCellContent = (
+    month: CalendarMonthCell,
+    originNode: React.ReactNode
+  ) =>
+    cellRender
+      ? cellRender(month.date, {
+          type: "month",
+          selected: month.selected,
+          inRange: false,
+          rangeStart: false,
+          rangeEnd: false,
+          today: month.today,
+          outside: false,
+          disabled: month.disabled,
+          originNode,
+        })
+      : originNode
+
+  const formatMonth = (month: Date) =>
+    adapter.format(month, i18n.formats.month, { locale: i18n.locale })
+  const formattedValue = value ? formatMonth(value) : ""
+
+  // Hover styling is kept in state so re-renders don't wipe it.
+  const hoverHandlers = (button: string) => ({
+    onMouseEnter: () => setHoveredButton(button),
+    onMouseLeave: () => setHoveredButton(null),
+  })
 
-      {open && (
-        <div style={styles.pop}>
-          <div style={styles.header}>
-            <button
-              type="button"
-              style={styles.iconButton}
-              onMouseEnter={(event) => handleIconHover(event, true)}
-              onMouseLeave={(event) => handleIconHover(event, false)}
-              onClick={() => setPanelYear((year) => year - 1)}
-              aria-label="previous year"
+  const iconButtonStyle = (button: string, disabled: boolean) => ({
+    ...styles.iconButton,
+    ...(hoveredButton === button && !disabled ? styles.iconButtonHover : {}),
+    ...(disabled ? styles.iconButtonDisabled : {}),
+  })
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        ...styles.container,
+        ...sizeVars,
+        ...(inline ? styles.containerInline : {}),
+      }}
+    >
+      {!inline && (
+        <div
+          ref={triggerRef}
+          role="combobox"
+          tabIndex={disabled ? undefined : 0}
+          {...getTriggerProps()}
+          aria-label={i18n.messages.monthPicker}
+          aria-invalid={status === "error" || undefined}
+          style={{
+            ...styles.input,
+            ...(size === "small" ? styles.inputSmall : {}),
+            ...(size === "large" ? styles.inputLarge : {}),
+            ...(open ? styles.inputActive : {}),
+            ...(status === "warning" ? styles.inputWarning : {}),
+            ...(status === "error" ? styles.inputError : {}),
+            ...(disabled ? styles.inputDisabled : {}),
+          }}
+          onClick={() => (open ? closePanel("trigger") : openPanel())}
+          onKeyDown={(event) => {
+            // Keys pressed on the clear button are handled by the button itself.
+            if (event.target !== event.currentTarget) return
+            if (event.key === "Enter" || event.key === " ") {
+              event.preventDefault()
+              if (open) {
+                closePanel("trigger")
+              } else {
+                openPanel()
+              }
+            }
+            if (event.key === "ArrowDown" && !open) {
+              event.preventDefault()
+              openPanel()
+            }
+            if (event.key === "Escape") {
+              setOpen(false, "escape")
+              setHoveredDate(null)
+            }
+          }}
+        >
+          <span style={styles.icon} aria-hidden="true">
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 1024 1024"
+              fill="currentColor"
             >
-              «
-            </button>
-            <div style={styles.headerLabel}>{panelYear}</div>
-            <button
-              type="button"
-              style={styles.iconButton}
-              onMouseEnter={(event) => handleIconHover(event, true)}
-              onMouseLeave={(event) => handleIconHover(event, false)}
-              onClick={() => setPanelYear((year) => year + 1)}
-              aria-label="next year"
+              <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
+            </svg>
+          </span>
+          <div style={styles.field}>
+            {formattedValue ? (
+              <span style={styles.value}>{formattedValue}</span>
+            ) : (
+              <span style={styles.placeholder}>
+                {placeholder ?? i18n.messages.selectMonth}
+              </span>
+            )}
+          </div>
+          <div style={styles.suffix}>
+            {value && !locked && (
+              <button
+                type="button"
+                style={{
+                  ...styles.clearButton,
+                  ...(hoveredButton === "clear" ? styles.clearButtonHover : {}),
+                }}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={(event) => {
+                  event.stopPropagation()
+                  emitMonth(null)
+                  setHoveredDate(null)
+                  setHoveredButton(null)
+                }}
+                {...hoverHandlers("clear")}
+                aria-label={i18n.messages.clearMonth}
+              >
+                ×
+              </button>
+            )}
+            <svg
+              width="14"
+              height="14"
+              viewBox="0 0 1024 1024"
+              fill="currentColor"
+              aria-hidden="true"
             >
-              »
-            </button>
+              <path d="m512 672 320-320-60.8-60.8L512 550.4 252.8 291.2 192 352z" />
+            </svg>
           </div>
+        </div>
+      )}
 
-          <div style={styles.grid}>
-            {months.map((monthDate, index) => {
-              const selected = value ? isSameMonth(monthDate, value) : false
-              const hovered = hovering === index
-              const baseStyle: React.CSSProperties = {
-                ...styles.monthBtn,
-                backgroundColor: selected
-                  ? "#1677ff"
-                  : hovered
-                  ? "rgba(64,150,255,0.12)"
-                  : "transparent",
-                color: selected ? "#fff" : "rgba(0,0,0,0.88)",
+      {open &&
+        renderPopup(
+          <div
+            role={inline ? "group" : "dialog"}
+            aria-label={i18n.messages.chooseMonth}
+            style={{ ...styles.pop, ...(inline ? styles.popInline : {}) }}
+            onKeyDown={(event) => {
+              if (event.key === "Escape" && !inline) {
+                event.stopPropagation()
+                closePanel("escape")
               }
-              return (
-                <button
-                  key={index}
-                  type="button"
-                  style={baseStyle}
-                  onMouseEnter={() => setHovering(index)}
-                  onMouseLeave={() => setHovering(null)}
-                  onClick={() => selectMonth(monthDate)}
-                >
-                  {format(monthDate, "MMM")}
-                </button>
-              )
-            })}
+            }}
+          >
+            <div style={styles.header}>
+              <button
+                {...calendar.getNavButtonProps("previousYear")}
+                style={iconButtonStyle(
+                  "previousYear",
+                  calendar.navigation.previousYear
+                )}
+                {...hoverHandlers("previousYear")}
+                aria-label={i18n.messages.previousYear}
+              >
+                «
+              </button>
+              <div id={labelId} style={styles.headerLabel} aria-live="polite">
+                {fiscalYearLabel(calendar.fiscalYear, fiscalYearStartMonth)}
+              </div>
+              <button
+                {...calendar.getNavButtonProps("nextYear")}
+                style={iconButtonStyle("nextYear", calendar.navigation.nextYear)}
+                {...hoverHandlers("nextYear")}
+                aria-label={i18n.messages.nextYear}
+              >
+                »
+              </button>
+            </div>
+
+            <div
+              ref={calendar.gridRef}
+              role="grid"
+              aria-labelledby={labelId}
+              style={styles.grid}
+              {...calendar.getGridProps()}
+            >
+              {calendar.rows.map((row, rowIndex) => (
+                <div key={rowIndex} role="row" style={styles.row}>
+                  {row.map((month) => {
+                    const baseStyle: React.CSSProperties = {
+                      ...styles.monthBtn,
+                      backgroundColor: month.selected
+                        ? themeVars.colorPrimary
+                        : month.hovered
+                        ? themeVars.colorPrimaryBg
+                        : "transparent",
+                      color: month.selected
+                        ? themeVars.colorTextOnPrimary
+                        : themeVars.colorText,
+                      ...(month.disabled && !month.selected
+                        ? styles.monthBtnDisabled
+                        : {}),
+                    }
+                    return (
+                      <button
+                        key={month.date.getTime()}
+                        {...calendar.getMonthProps(month)}
+                        aria-label={adapter.format(
+                          month.date,
+                          i18n.formats.month,
+                          { locale: i18n.locale }
+                        )}
+                        style={baseStyle}
+                      >
+                        {renderCellContent(
+                          month,
+                          adapter.format(month.date, i18n.formats.monthCell, {
+                            locale: i18n.locale,
+                          })
+                        )}
+                      </button>
+                    )
+                  })}
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
-      )}
+        )}
+      {formField.renderInputs()}
     </div>
   )
 }
@@ -0,0 +1,561 @@
+import React, { useEffect, useId, useRef, useState } from "react"
+import { isSameDay } from "date-fns"
+import {
+  fiscalQuarterOf,
+  fiscalYearLabel,
+  fiscalYearOf,
+  startOfFiscalQuarter,
+  usePickerField,
+  usePickerPopup,
+  useQuarterCalendar,
+  zonedNow,
+} from "../Calendar"
+import type {
+  CalendarQuarterCell,
+  DateAdapter,
+  PickerOpenChangeReason,
+  PickerPopupProps,
+  PickerTriggerProps,
+  PickerValueProps,
+  UsePickerFieldOptions,
+} from "../Calendar"
+import { useLocale } from "../LocaleProvider"
+import type { PickerLocaleProps } from "../LocaleProvider"
+import { themeVars } from "../ThemeProvider"
+
+export type DatePickerQuarterInfo = {
+  /** First day of the quarter. */
+  start: Date
+  /** 1–4, counted from the start of the fiscal year. */
+  quarter: number
+  /** Fiscal year, named after the calendar year it ends in. */
+  fiscalYear: number
+}
+
+export type DatePickerQuarterProps = PickerLocaleProps &
+  PickerPopupProps &
+  PickerTriggerProps &
+  PickerValueProps<Date | null, string> & {
+    placeholder?: string
+    minDate?: Date
+    maxDate?: Date
+    /** Called with the first day of each quarter; true disables that quarter. */
+    disabledDate?: (date: Date) => boolean
+    /**
+     * Month index (0 = January) the fiscal year starts in. Quarters are
+     * counted from it, so with 3 (April) April 2026 starts "FY27 Q1".
+     */
+    fiscalYearStartMonth?: number
+    /**
+     * Label shown in the trigger. Defaults to `formats.quarter` for calendar
+     * quarters and "FY27 Q1" for fiscal ones.
+     */
+    formatLabel?: (quarter: DatePickerQuarterInfo) => string
+  }
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: "relative",
+    width: 320,
+    fontFamily: themeVars.fontFamily,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+  },
+  input: {
+    display: "flex",
+    alignItems: "center",
+    borderWidth: 1,
+    borderStyle: "solid",
+    borderColor: themeVars.colorBorder,
+    borderRadius: themeVars.borderRadius,
+    padding: "4px 12px",
+    background: themeVars.colorBgContainer,
+    height: 32,
+    cursor: "pointer",
+    transition: "border-color .3s, box-shadow .3s",
+    gap: 8,
+  },
+  inputActive: {
+    borderColor: themeVars.colorPrimaryHover,
+    boxShadow: `0 0 0 2px ${themeVars.colorPrimaryOutline}`,
+  },
+  inputError: {
+    borderColor: themeVars.colorError,
+    boxShadow: `0 0 0 2px ${themeVars.colorErrorOutline}`,
+  },
+  inputWarning: {
+    borderColor: themeVars.colorWarning,
+    boxShadow: `0 0 0 2px ${themeVars.colorWarningOutline}`,
+  },
+  inputSmall: {
+    height: 24,
+    padding: "0 8px",
+  },
+  inputLarge: {
+    height: 40,
+    padding: "6px 12px",
+  },
+  inputDisabled: {
+    borderColor: themeVars.colorBorder,
+    boxShadow: "none",
+    background: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  icon: {
+    color: themeVars.colorTextTertiary,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  field: {
+    flex: 1,
+    minWidth: 0,
+    display: "flex",
+    alignItems: "center",
+  },
+  value: {
+    lineHeight: "22px",
+    whiteSpace: "nowrap",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  placeholder: {
+    color: themeVars.colorTextDisabled,
+    lineHeight: "22px",
+    whiteSpace: "nowrap",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  suffix: {
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+    color: themeVars.colorTextTertiary,
+  },
+  clearButton: {
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: 16,
+    height: 16,
+    borderRadius: "50%",
+    border: "none",
+    backgroundColor: themeVars.colorFill,
+    color: themeVars.colorTextTertiary,
+    cursor: "pointer",
+    fontSize: 12,
+    transition: "background-color .2s, color .2s",
+  },
+  clearButtonHover: {
+    backgroundColor: themeVars.colorFillHover,
+    color: themeVars.colorTextSecondary,
+  },
+  pop: {
+    background: themeVars.colorBgElevated,
+    border: `1px solid ${themeVars.colorBorderSecondary}`,
+    borderRadius: themeVars.borderRadiusLG,
+    width: 280,
+    boxShadow: themeVars.boxShadow,
+    padding: 16,
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    fontWeight: 500,
+  },
+  headerLabel: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 16,
+    color: themeVars.colorText,
+  },
+  iconButton: {
+    width: 24,
+    height: 24,
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    border: "none",
+    backgroundColor: "transparent",
+    color: themeVars.colorTextTertiary,
+    borderRadius: themeVars.borderRadiusSM,
+    cursor: "pointer",
+    transition: "background-color .2s, color .2s",
+    padding: 0,
+    fontSize: 12,
+    lineHeight: "24px",
+  },
+  iconButtonHover: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorPrimary,
+  },
+  iconButtonDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(4, 1fr)",
+    gap: 8,
+  },
+  row: {
+    display: "contents",
+  },
+  quarterBtn: {
+    border: "none",
+    borderRadius: themeVars.borderRadius,
+    backgroundColor: "transparent",
+    cursor: "pointer",
+    height: `calc(${themeVars.cellSize} + 4px)`,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+    transition:
+      "background-color .2s, color .2s, box-shadow .2s, border-color .2s",
+  },
+  quarterBtnDisabled: {
+    backgroundColor: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+}
+
+// The quarter `date` falls in, as passed to `formatLabel`.
+function quarterInfoOf(
+  date: Date,
+  startMonth: number,
+  adapter: DateAdapter
+): DatePickerQuarterInfo {
+  return {
+    start: startOfFiscalQuarter(date, startMonth, adapter),
+    quarter: fiscalQuarterOf(date, startMonth, adapter),
+    fiscalYear: fiscalYearOf(date, startMonth, adapter),
+  }
+}
+
+type FieldOptions = UsePickerFieldOptions<Date | null, string>
+
+export const DatePickerQuarter: React.FC<DatePickerQuarterProps> = ({
+  value: valueProp,
+  onChange,
+  valueFormat,
+  name,
+  defaultValue,
+  required,
+  serialize,
+  ref,
+  placeholder,
+  minDate,
+  maxDate,
+  disabledDate,
+  fiscalYearStartMonth = 0,
+  formatLabel,
+  open: openProp,
+  defaultOpen,
+  onOpenChange,
+  getPopupContainer,
+  disabled = false,
+  readOnly = false,
+  size = "middle",
+  status,
+  locale,
+  messages,
+  formats,
+  timeZone,
+  dateAdapter,
+}) => {
+  const i18n = useLocale({
+    locale,
+    messages,
+    formats,
+    timeZone,
+    dateAdapter,
+  })
+  const { adapter } = i18n
+  const triggerRef = useRef<HTMLDivElement | null>(null)
+  const formField = usePickerField({
+    name,
+    defaultValue,
+    required,
+    serialize,
+    ref: ref as FieldOptions["ref"],
+    value: valueProp,
+    valueFormat,
+    timeZone: i18n.timeZone,
+    emptyValue: null,
+    onChange: onChange as FieldOptions["onChange"],
+    formatText: (quarter) => (quarter ? labelOf(quarter) : ""),
+    toDates: (quarter) => [quarter],
+    getFocusTarget: () => triggerRef.current,
+  })
+  const value = formField.value
+  const emitQuarter = formField.setValue
+  const labelId = useId()
+  const today = zonedNow(i18n.timeZone)
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const calendar = useQuarterCalendar({
+    fiscalYearStartMonth,
+    minDate,
+    maxDate,
+    isQuarterDisabled: disabledDate,
+    isQuarterSelected: (quarter) =>
+      !!value &&
+      isSameDay(
+        quarter,
+        startOfFiscalQuarter(value, fiscalYearStartMonth, adapter)
+      ),
+    onSelect: (quarter) => {
+      emitQuarter(quarter)
+      closePanel("select")
+    },
+    defaultQuarter: value,
+    today,
+    adapter,
+  })
+  const { setPanelMonth, setHoveredDate } = calendar
+  const {
+    containerRef,
+    open,
+    setOpen,
+    sizeVars,
+    getTriggerProps,
+    renderPopup,
+  } = usePickerPopup({
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    getPopupContainer,
+    disabled,
+    readOnly,
+    size,
+    onOutsideClick: () => setHoveredDate(null),
+    onOpenSync: (isOpen) =>
+      isOpen ? calendar.showQuarter(value ?? today) : setHoveredDate(null),
+  })
+
+  useEffect(() => {
+    if (value) {
+      setPanelMonth(
+        startOfFiscalQuarter(value, fiscalYearStartMonth, adapter)
+      )
+    }
+  }, [value, fiscalYearStartMonth, setPanelMonth, adapter])
+
+  const locked = disabled || readOnly
+
+  const openPanel = () => {
+    if (locked) return
+    calendar.showQuarter(value ?? today)
+    calendar.requestFocus()
+    setOpen(true, "trigger")
+  }
+
+  const closePanel = (reason: PickerOpenChangeReason) => {
+    setOpen(false, reason)
+    setHoveredDate(null)
+    triggerRef.current?.focus()
+  }
+
+  const labelOf = (quarter: Date) => {
+    const info = quarterInfoOf(quarter, fiscalYearStartMonth, adapter)
+    if (formatLabel) return formatLabel(info)
+    if (fiscalYearStartMonth === 0) {
+      return adapter.format(quarter, i18n.formats.quarter, {
+        locale: i18n.locale,
+      })
+    }
+    const year = fiscalYearLabel(info.fiscalYear, fiscalYearStartMonth)
+    return `${year} Q${info.quarter}`
+  }
+
+  const formattedValue = value ? labelOf(value) : ""
+
+  // Hover styling is kept in state so re-renders don't wipe it.
+  const hoverHandlers = (button: string) => ({
+    onMouseEnter: () => setHoveredButton(button),
+    onMouseLeave: () => setHoveredButton(null),
+  })
+
+  const iconButtonStyle = (button: string, disabled: boolean) => ({
+    ...styles.iconButton,
+    ...(hoveredButton === button && !disabled ? styles.iconButtonHover : {}),
+    ...(disabled ? styles.iconButtonDisabled : {}),
+  })
+
+  // Month span shown as the quarter's tooltip, e.g. "Jan – Mar".
+  const quarterRangeOf = (quarter: Date) => {
+    const lastMonth = adapter.add(quarter, { months: 2 })
+    const format = (month: Date) =>
+      adapter.format(month, i18n.formats.monthCell, { locale: i18n.locale })
+    return `${format(quarter)} – ${format(lastMonth)}`
+  }
+
+  const quarterStyle = (cell: CalendarQuarterCell): React.CSSProperties => ({
+    ...styles.quarterBtn,
+    backgroundColor: cell.selected
+      ? themeVars.colorPrimary
+      : cell.hovered
+      ? themeVars.colorPrimaryBg
+      : "transparent",
+    color: cell.selected ? themeVars.colorTextOnPrimary : themeVars.colorText,
+    ...(cell.disabled && !cell.selected ? styles.quarterBtnDisabled : {}),
+  })
+
+  return (
+    <div ref={containerRef} style={{ ...styles.container, ...sizeVars }}>
+      <div
+        ref={triggerRef}
+        role="combobox"
+        tabIndex={disabled ? undefined : 0}
+        {...getTriggerProps()}
+        aria-label={i18n.messages.quarterPicker}
+        aria-invalid={status === "error" || undefined}
+        style={{
+          ...styles.input,
+          ...(size === "small" ? styles.inputSmall : {}),
+          ...(size === "large" ? styles.inputLarge : {}),
+          ...(open ? styles.inputActive : {}),
+          ...(status === "warning" ? styles.inputWarning : {}),
+          ...(status === "error" ? styles.inputError : {}),
+          ...(disabled ? styles.inputDisabled : {}),
+        }}
+        onClick={() => (open ? closePanel("trigger") : openPanel())}
+        onKeyDown={(event) => {
+          // Keys pressed on the clear button are handled by the button itself.
+          if (event.target !== event.currentTarget) return
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault()
+            if (open) {
+              closePanel("trigger")
+            } else {
+              openPanel()
+            }
+          }
+          if (event.key === "ArrowDown" && !open) {
+            event.preventDefault()
+            openPanel()
+          }
+          if (event.key === "Escape") {
+            setOpen(false, "escape")
+            setHoveredDate(null)
+          }
+        }}
+      >
+        <span style={styles.icon} aria-hidden="true">
+          <svg
+            width="16"
+            height="16"
+            viewBox="0 0 1024 1024"
+            fill="currentColor"
+          >
+            <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
+          </svg>
+        </span>
+        <div style={styles.field}>
+          {formattedValue ? (
+            <span style={styles.value}>{formattedValue}</span>
+          ) : (
+            <span style={styles.placeholder}>
+              {placeholder ?? i18n.messages.selectQuarter}
+            </span>
+          )}
+        </div>
+        <div style={styles.suffix}>
+          {value && !locked && (
+            <button
+              type="button"
+              style={{
+                ...styles.clearButton,
+                ...(hoveredButton === "clear" ? styles.clearButtonHover : {}),
+              }}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={(event) => {
+                event.stopPropagation()
+                emitQuarter(null)
+                setHoveredDate(null)
+                setHoveredButton(null)
+              }}
+              {...hoverHandlers("clear")}
+              aria-label={i18n.messages.clearQuarter}
+            >
+              ×
+            </button>
+          )}
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 1024 1024"
+            fill="currentColor"
+            aria-hidden="true"
+          >
+            <path d="m512 672 320-320-60.8-60.8L512 550.4 252.8 291.2 192 352z" />
+          </svg>
+        </div>
+      </div>
+
+      {open &&
+        renderPopup(
+          <div
+            role="dialog"
+            aria-label={i18n.messages.chooseQuarter}
+            style={styles.pop}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") {
+                event.stopPropagation()
+                closePanel("escape")
+              }
+            }}
+          >
+            <div style={styles.header}>
+              <button
+                {...calendar.getNavButtonProps("previousYear")}
+                style={iconButtonStyle("previousYear", calendar.navigation.previousYear)}
+                {...hoverHandlers("previousYear")}
+                aria-label={i18n.messages.previousYear}
+              >
+                «
+              </button>
+              <div id={labelId} style={styles.headerLabel} aria-live="polite">
+                {fiscalYearLabel(calendar.fiscalYear, fiscalYearStartMonth)}
+              </div>
+              <button
+                {...calendar.getNavButtonProps("nextYear")}
+                style={iconButtonStyle("nextYear", calendar.navigation.nextYear)}
+                {...hoverHandlers("nextYear")}
+                aria-label={i18n.messages.nextYear}
+              >
+                »
+              </button>
+            </div>
+
+            <div
+              ref={calendar.gridRef}
+              role="grid"
+              aria-labelledby={labelId}
+              style={styles.grid}
+              {...calendar.getGridProps()}
+            >
+              <div role="row" style={styles.row}>
+                {calendar.cells.map((cell) => (
+                  <button
+                    key={cell.quarter}
+                    {...calendar.getQuarterProps(cell)}
+                    aria-label={labelOf(cell.date)}
+                    title={quarterRangeOf(cell.date)}
+                    style={quarterStyle(cell)}
+                  >
+                    Q{cell.quarter}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      {formField.renderInputs()}
+    </div>
+  )
+}
+
+export default DatePickerQuarter
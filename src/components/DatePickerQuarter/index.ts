@@ -0,0 +1,2 @@
+export { DatePickerQuarter as default } from "./DatePickerQuarter"
+export * from "./DatePickerQuarter"
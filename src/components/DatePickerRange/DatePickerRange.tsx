@@ -1,69 +1,178 @@
-import React, { useEffect, useMemo, useRef, useState } from "react"
+import React, { useEffect, useId, useRef, useState } from "react"
+import { isAfter, isBefore, isEqual, isValid, startOfDay } from "date-fns"
 import {
-  add,
-  endOfMonth,
-  endOfWeek,
-  format,
-  isBefore,
-  isSameDay,
-  isSameMonth,
-  isWithinInterval,
-  startOfMonth,
-  startOfWeek,
-} from "date-fns"
-
-export type DatePickerRangeProps = {
-  value?: [Date | null, Date | null]
-  onChange?: (range: [Date | null, Date | null]) => void
-  placeholder?: [string, string]
+  rotateWeekDays,
+  rowWeekStartsOn,
+  toZonedTime,
+  usePickerField,
+  usePickerPopup,
+  useRangeCalendar,
+  weekNumberOf,
+  zonedNow,
+} from "../Calendar"
+import type {
+  CalendarCellRender,
+  PickerFieldName,
+  PickerOpenChangeReason,
+  PickerPopupProps,
+  PickerTriggerProps,
+  PickerValueProps,
+  RangeCalendarCell,
+  RangeCalendarPanel,
+  RangeCalendarPicker,
+  RangeField,
+  UsePickerFieldOptions,
+  WeekNumbering,
+} from "../Calendar"
+import { useLocale } from "../LocaleProvider"
+import type { PickerLocaleProps } from "../LocaleProvider"
+import { themeVars } from "../ThemeProvider"
+
+export type DatePickerRangePreset = {
+  label: React.ReactNode
+  /** A fixed range, or a function evaluated each time the preset is used. */
+  value: [Date, Date] | (() => [Date, Date])
 }
 
+export type DatePickerRangePicker = RangeCalendarPicker
+
+type RangeValue = [Date | null, Date | null]
+
+export type DatePickerRangeProps = PickerLocaleProps &
+  PickerPopupProps &
+  PickerTriggerProps &
+  PickerValueProps<RangeValue, [string, string], PickerFieldName> & {
+    placeholder?: [string, string]
+    /**
+     * Granularity of the range. Both panels switch to the matching grid and
+     * emitted ranges run from the start of the first period to the end of the
+     * last one.
+     */
+    picker?: DatePickerRangePicker
+    /**
+     * Extra date-fns patterns accepted when parsing typed text. The display
+     * format for the current `picker` is always tried first.
+     */
+    parseFormats?: string[]
+    /** Lets the start or the end stay empty, e.g. `[false, true]` for "from a date onwards". */
+    allowEmpty?: [boolean, boolean]
+    minDate?: Date
+    maxDate?: Date
+    /**
+     * Returns true for days that cannot be picked as a range end. Month,
+     * quarter and year pickers call it with the first day of each period.
+     */
+    disabledDate?: (date: Date) => boolean
+    /** Shortest allowed range, counted in days including both ends. */
+    minDays?: number
+    /** Longest allowed range, counted in days including both ends. */
+    maxDays?: number
+    /** When false, a range may not span any day rejected by `disabledDate` or the min/max bounds. */
+    allowDisabledInRange?: boolean
+    /** Quick ranges listed next to the calendars. Hovering previews, clicking commits. */
+    presets?: DatePickerRangePreset[]
+    presetsPlacement?: "left" | "bottom"
+    /** Custom content for the cells of both panels. */
+    cellRender?: CalendarCellRender
+    /**
+     * Starts every row of the day grids with its week number. Clicking the
+     * number picks that whole week as the range.
+     */
+    showWeekNumber?: boolean
+    /** How week numbers count. "iso" also starts the rows on Monday. */
+    weekNumbering?: WeekNumbering
+    /**
+     * Renders the panels in the page flow, always visible and without the
+     * trigger inputs. Once a range is complete, the next pick starts a new one.
+     */
+    inline?: boolean
+  }
+
 const styles: Record<string, React.CSSProperties> = {
   container: {
     position: "relative",
     width: 320,
-    fontFamily:
-      '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", sans-serif',
-    fontSize: 14,
-    color: "rgba(0,0,0,0.88)",
+    fontFamily: themeVars.fontFamily,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+  },
+  containerInline: {
+    width: "fit-content",
   },
   input: {
     display: "flex",
     alignItems: "center",
-    border: "1px solid #d9d9d9",
-    borderRadius: 6,
+    borderWidth: 1,
+    borderStyle: "solid",
+    borderColor: themeVars.colorBorder,
+    borderRadius: themeVars.borderRadius,
     padding: "4px 12px",
-    background: "#fff",
+    background: themeVars.colorBgContainer,
     height: 32,
     cursor: "pointer",
     transition: "border-color .3s, box-shadow .3s",
     gap: 8,
   },
   inputActive: {
-    borderColor: "#4096ff",
-    boxShadow: "0 0 0 2px rgba(24, 144, 255, 0.2)",
+    borderColor: themeVars.colorPrimaryHover,
+    boxShadow: `0 0 0 2px ${themeVars.colorPrimaryOutline}`,
+  },
+  inputError: {
+    borderColor: themeVars.colorError,
+    boxShadow: `0 0 0 2px ${themeVars.colorErrorOutline}`,
+  },
+  inputWarning: {
+    borderColor: themeVars.colorWarning,
+    boxShadow: `0 0 0 2px ${themeVars.colorWarningOutline}`,
+  },
+  inputSmall: {
+    height: 24,
+    padding: "0 8px",
+  },
+  inputLarge: {
+    height: 40,
+    padding: "6px 12px",
+  },
+  inputDisabled: {
+    borderColor: themeVars.colorBorder,
+    boxShadow: "none",
+    background: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
   },
   field: {
+    position: "relative",
     flex: 1,
     minWidth: 0,
     display: "flex",
     alignItems: "center",
   },
-  value: {
+  textInput: {
+    width: "100%",
+    minWidth: 0,
+    padding: 0,
+    border: "none",
+    outline: "none",
+    background: "transparent",
+    font: "inherit",
+    color: "inherit",
     lineHeight: "22px",
-    whiteSpace: "nowrap",
-    overflow: "hidden",
-    textOverflow: "ellipsis",
   },
-  placeholder: {
-    color: "rgba(0,0,0,0.25)",
-    lineHeight: "22px",
-    whiteSpace: "nowrap",
-    overflow: "hidden",
-    textOverflow: "ellipsis",
+  textInputError: {
+    color: themeVars.colorError,
+  },
+  activeBar: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: -5,
+    height: 2,
+    borderRadius: 1,
+    background: themeVars.colorPrimary,
+    pointerEvents: "none",
   },
   icon: {
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
     display: "flex",
     alignItems: "center",
     justifyContent: "center",
@@ -72,7 +181,7 @@ const styles: Record<string, React.CSSProperties> = {
     display: "flex",
     alignItems: "center",
     gap: 6,
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
   },
   clearButton: {
     display: "inline-flex",
@@ -82,33 +191,33 @@ const styles: Record<string, React.CSSProperties> = {
     height: 16,
     borderRadius: "50%",
     border: "none",
-    background: "rgba(0,0,0,0.06)",
-    color: "rgba(0,0,0,0.45)",
+    backgroundColor: themeVars.colorFill,
+    color: themeVars.colorTextTertiary,
     cursor: "pointer",
     fontSize: 12,
     transition: "background-color .2s, color .2s",
   },
+  clearButtonHover: {
+    backgroundColor: themeVars.colorFillHover,
+    color: themeVars.colorTextSecondary,
+  },
   divider: {
     width: 1,
     height: 16,
-    background: "#d9d9d9",
+    background: themeVars.colorBorder,
     margin: "0 6px",
   },
   separator: {
-    color: "rgba(0,0,0,0.25)",
+    color: themeVars.colorTextDisabled,
     fontSize: 12,
     textAlign: "center",
   },
   pop: {
-    position: "absolute",
-    zIndex: 60,
-    top: "100%",
-    marginTop: 4,
-    background: "#fff",
-    border: "1px solid #eee",
-    borderRadius: 8,
+    background: themeVars.colorBgElevated,
+    border: `1px solid ${themeVars.colorBorderSecondary}`,
+    borderRadius: themeVars.borderRadiusLG,
     width: 640,
-    boxShadow: "0 6px 16px rgba(0,0,0,.08)",
+    boxShadow: themeVars.boxShadow,
     padding: "16px 12px 12px",
     display: "grid",
     gridTemplateColumns: "repeat(2, 1fr)",
@@ -123,11 +232,67 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 500,
     gap: 4,
   },
+  popWithSidebar: {
+    width: 780,
+    gridTemplateColumns: "auto repeat(2, 1fr)",
+  },
+  popInline: {
+    boxShadow: "none",
+  },
+  presetSidebar: {
+    gridRow: "1 / span 2",
+    display: "flex",
+    flexDirection: "column",
+    gap: 4,
+    listStyle: "none",
+    margin: 0,
+    padding: "0 12px 0 0",
+    borderRight: `1px solid ${themeVars.colorBorderSecondary}`,
+    minWidth: 120,
+  },
+  presetFooter: {
+    gridColumn: "1 / span 2",
+    display: "flex",
+    flexWrap: "wrap",
+    gap: 8,
+    listStyle: "none",
+    margin: "4px 0 0",
+    padding: "0 8px",
+  },
+  presetBtn: {
+    display: "block",
+    width: "100%",
+    border: "none",
+    borderRadius: themeVars.borderRadiusSM,
+    backgroundColor: "transparent",
+    padding: "4px 8px",
+    fontFamily: "inherit",
+    fontSize: themeVars.fontSize,
+    lineHeight: "22px",
+    textAlign: "left",
+    color: themeVars.colorText,
+    cursor: "pointer",
+    whiteSpace: "nowrap",
+    transition: "background-color .2s, color .2s",
+  },
+  presetTag: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorPrimary,
+  },
+  presetBtnActive: {
+    backgroundColor: themeVars.colorPrimaryBg,
+    color: themeVars.colorPrimary,
+  },
+  presetBtnDisabled: {
+    backgroundColor: "transparent",
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   headerLabel: {
     flex: 1,
     textAlign: "center",
     fontSize: 16,
-    color: "rgba(0,0,0,0.88)",
+    color: themeVars.colorText,
   },
   iconButton: {
     width: 24,
@@ -136,15 +301,23 @@ const styles: Record<string, React.CSSProperties> = {
     alignItems: "center",
     justifyContent: "center",
     border: "none",
-    background: "transparent",
-    color: "rgba(0,0,0,0.45)",
-    borderRadius: 4,
+    backgroundColor: "transparent",
+    color: themeVars.colorTextTertiary,
+    borderRadius: themeVars.borderRadiusSM,
     cursor: "pointer",
     transition: "background-color .2s, color .2s",
     padding: 0,
     fontSize: 12,
     lineHeight: "24px",
   },
+  iconButtonHover: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorPrimary,
+  },
+  iconButtonDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   iconGlyph: {
     display: "inline-block",
     width: "100%",
@@ -157,7 +330,7 @@ const styles: Record<string, React.CSSProperties> = {
     marginBottom: 8,
     padding: "0 8px",
     fontSize: 12,
-    color: "rgba(0,0,0,0.45)",
+    color: themeVars.colorTextTertiary,
   },
   grid: {
     display: "grid",
@@ -166,386 +339,1020 @@ const styles: Record<string, React.CSSProperties> = {
     rowGap: 8,
     padding: "0 8px",
   },
+  row: {
+    display: "contents",
+  },
+  weekNumberColumns: {
+    gridTemplateColumns: "24px repeat(7,1fr)",
+  },
+  weekNumberBtn: {
+    width: "100%",
+    height: themeVars.cellSize,
+    padding: 0,
+    border: "none",
+    backgroundColor: "transparent",
+    borderRadius: themeVars.borderRadiusSM,
+    cursor: "pointer",
+    lineHeight: themeVars.cellSize,
+    textAlign: "center",
+    fontSize: 12,
+    color: themeVars.colorTextTertiary,
+  },
+  weekNumberBtnHover: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorText,
+  },
+  weekNumberBtnDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   dayBtn: {
     width: "100%",
-    height: 32,
+    height: themeVars.cellSize,
     padding: 0,
     border: "none",
-    background: "transparent",
-    borderRadius: 4,
+    backgroundColor: "transparent",
+    borderRadius: themeVars.borderRadiusSM,
     cursor: "pointer",
-    fontSize: 14,
-    lineHeight: "32px",
+    fontSize: themeVars.fontSize,
+    lineHeight: themeVars.cellSize,
     display: "flex",
     alignItems: "center",
     justifyContent: "center",
     transition:
       "background-color .2s, color .2s, border-color .2s, box-shadow .2s",
   },
+  cellGrid: {
+    display: "grid",
+    gap: 8,
+    padding: "0 8px",
+  },
+  cellBtn: {
+    border: "none",
+    borderRadius: themeVars.borderRadius,
+    backgroundColor: "transparent",
+    cursor: "pointer",
+    height: `calc(${themeVars.cellSize} + 4px)`,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+    transition:
+      "background-color .2s, color .2s, box-shadow .2s, border-color .2s",
+  },
+  dayBtnDisabled: {
+    backgroundColor: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
   footer: {
     gridColumn: "1 / span 2",
-    borderTop: "1px solid #f0f0f0",
+    display: "block",
+    width: "100%",
+    border: "none",
+    borderTop: `1px solid ${themeVars.colorBorderSecondary}`,
+    background: "transparent",
     marginTop: 12,
-    paddingTop: 12,
+    padding: "12px 0 0",
+    font: "inherit",
     textAlign: "center",
-    color: "#1677ff",
+    color: themeVars.colorPrimary,
     cursor: "pointer",
     fontWeight: 600,
   },
+  footerDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
 }
 
-const weekDays = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"]
+function isSameRange(
+  a: [Date | null, Date | null],
+  b: [Date | null, Date | null]
+) {
+  return a.every((date, index) => {
+    const other = b[index]
+    return date && other ? isEqual(date, other) : date === other
+  })
+}
 
-function monthMatrix(anchor: Date) {
-  const start = startOfWeek(startOfMonth(anchor), { weekStartsOn: 0 })
-  const end = endOfWeek(endOfMonth(anchor), { weekStartsOn: 0 })
-  const days: Date[] = []
-  let cur = start
-  while (cur <= end) {
-    days.push(cur)
-    cur = add(cur, { days: 1 })
-  }
-  return days
+function resolvePreset(
+  preset: DatePickerRangePreset,
+  timeZone?: string
+): [Date, Date] {
+  const range =
+    typeof preset.value === "function" ? preset.value() : preset.value
+  const [start, end] = range.map((date) => toZonedTime(date, timeZone))
+  return isBefore(end, start) ? [end, start] : [start, end]
 }
 
+type FieldOptions = UsePickerFieldOptions<
+  RangeValue,
+  [string, string],
+  PickerFieldName
+>
+
+const emptyRange: RangeValue = [null, null]
+
 export const DatePickerRange: React.FC<DatePickerRangeProps> = ({
-  value = [null, null],
-  onChange,
-  placeholder = ["Start date", "End date"],
+  value: valueProp,
+  onChange: onChangeProp,
+  valueFormat,
+  name,
+  defaultValue,
+  required,
+  serialize,
+  ref,
+  placeholder,
+  picker = "day",
+  parseFormats,
+  allowEmpty = [false, false],
+  minDate,
+  maxDate,
+  disabledDate,
+  minDays,
+  maxDays,
+  allowDisabledInRange = true,
+  presets,
+  presetsPlacement = "left",
+  cellRender,
+  showWeekNumber = false,
+  weekNumbering = "locale",
+  inline = false,
+  open: openProp,
+  defaultOpen,
+  onOpenChange,
+  getPopupContainer,
+  disabled = false,
+  readOnly = false,
+  size = "middle",
+  status,
+  locale,
+  messages,
+  formats,
+  timeZone,
+  dateAdapter,
 }) => {
-  const containerRef = useRef<HTMLDivElement | null>(null)
-  const [open, setOpen] = useState(false)
-  const [panelMonth, setPanelMonth] = useState<Date>(value[0] ?? new Date())
-
+  const i18n = useLocale({
+    locale,
+    messages,
+    formats,
+    timeZone,
+    dateAdapter,
+  })
+  const { adapter } = i18n
+  const weekStartsOn = rowWeekStartsOn(weekNumbering, i18n.weekStartsOn)
+  const weekDays = rotateWeekDays(
+    i18n.weekDays,
+    i18n.weekStartsOn,
+    weekStartsOn
+  )
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([])
+  const formField = usePickerField({
+    name,
+    defaultValue,
+    required,
+    serialize,
+    ref: ref as FieldOptions["ref"],
+    value: valueProp,
+    valueFormat,
+    timeZone: i18n.timeZone,
+    emptyValue: emptyRange,
+    onChange: onChangeProp as FieldOptions["onChange"],
+    formatText: ([start, end]): [string, string] => [
+      formatDate(start),
+      formatDate(end),
+    ],
+    toDates: (range) => range,
+    allowEmpty,
+    getFocusTarget: () =>
+      inputRefs.current[0] ??
+      containerRef.current?.querySelector<HTMLElement>(
+        '[role="gridcell"][tabindex="0"]'
+      ) ??
+      null,
+  })
+  // Both ends are handled as wall-clock dates in the picker's time zone.
+  const { value, setValue: onChange } = formField
+  const today = zonedNow(i18n.timeZone)
+  const firstLabelId = useId()
+  const secondLabelId = useId()
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
   const [draftRange, setDraftRange] =
     useState<[Date | null, Date | null]>(value)
-  const [hoverDate, setHoverDate] = useState<Date | null>(null)
-
-  const firstMonth = useMemo(() => add(panelMonth, { months: 0 }), [panelMonth])
-  const secondMonth = useMemo(
-    () => add(panelMonth, { months: 1 }),
-    [panelMonth]
+  // The end of the range that the next picked day is written to.
+  const [activeField, setActiveField] = useState<RangeField>(0)
+  const [inputTexts, setInputTexts] = useState<[string | null, string | null]>(
+    [null, null]
   )
+  const [focused, setFocused] = useState(false)
+  // Range shown while a preset is hovered or focused, plus the panel month
+  // to return to once the preview ends.
+  const [presetPreview, setPresetPreview] = useState<{
+    index: number
+    range: [Date, Date]
+    restoreMonth: Date
+  } | null>(null)
+  // An inline calendar has no fields to pick which end to change, so a
+  // complete range stays highlighted but no longer anchors the next pick.
+  const [draftStart, draftEnd] = draftRange
+  const completeInlineRange: [Date, Date] | null =
+    inline && draftStart && draftEnd ? [draftStart, draftEnd] : null
 
-  const firstMatrix = useMemo(() => monthMatrix(firstMonth), [firstMonth])
-  const secondMatrix = useMemo(() => monthMatrix(secondMonth), [secondMonth])
+  const calendar = useRangeCalendar({
+    picker,
+    weekStartsOn,
+    minDate,
+    maxDate,
+    disabledDate,
+    minDays,
+    maxDays,
+    allowDisabledInRange,
+    range: completeInlineRange ? [null, null] : draftRange,
+    activeField,
+    previewRange: presetPreview?.range ?? completeInlineRange,
+    onSelect: (date) => pickDay(date),
+    defaultMonth: value[0],
+    today,
+    adapter,
+  })
+  const {
+    cellPicker,
+    panelMonth,
+    setPanelMonth,
+    setActiveDate,
+    setHoveredDate,
+    toStart,
+    toEnd,
+    isPickDisabled,
+    violatesRangeRules,
+    rangeWithPick,
+    isVisibleFrom,
+  } = calendar
+  const {
+    containerRef,
+    open,
+    setOpen,
+    contains,
+    sizeVars,
+    getTriggerProps,
+    renderPopup,
+  } = usePickerPopup({
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    getPopupContainer,
+    inline,
+    disabled,
+    readOnly,
+    size,
+    onOutsideClick: () => finishEditing(),
+    onOpenSync: (isOpen) => {
+      if (isOpen) {
+        preparePanel(activeField)
+      } else {
+        resetEditing()
+        setDraftRange(value)
+      }
+    },
+  })
 
   useEffect(() => {
     setDraftRange(value)
-    setHoverDate(null)
+    setHoveredDate(null)
     if (value[0]) {
       setPanelMonth(value[0])
     }
-  }, [value])
+  }, [value, setHoveredDate, setPanelMonth])
 
-  useEffect(() => {
-    const handleOutsideClick = (event: MouseEvent) => {
-      if (
-        open &&
-        containerRef.current &&
-        !containerRef.current.contains(event.target as Node)
-      ) {
-        setOpen(false)
-        setDraftRange(value)
-        setHoverDate(null)
+  const focusField = (field: RangeField) => inputRefs.current[field]?.focus()
+
+  const displayFormat = {
+    day: i18n.formats.date,
+    week: i18n.formats.week,
+    month: i18n.formats.month,
+    quarter: i18n.formats.quarter,
+    year: i18n.formats.year,
+  }[picker]
+  const formatOptions = {
+    locale: i18n.locale,
+    weekStartsOn,
+    useAdditionalWeekYearTokens: true,
+  }
+
+  const parseInput = (text: string) => {
+    const trimmed = text.trim()
+    for (const pattern of [displayFormat, ...(parseFormats ?? [])]) {
+      const parsed = adapter.parse(trimmed, pattern, new Date(), formatOptions)
+      if (isValid(parsed)) {
+        return isPickDisabled(parsed) ? null : toStart(parsed)
       }
     }
-    document.addEventListener("mousedown", handleOutsideClick)
-    return () => document.removeEventListener("mousedown", handleOutsideClick)
-  }, [open, value])
+    return null
+  }
+
+  // Period pickers emit whole periods: from the start of the first one to
+  // the end of the last one.
+  const snapRange = (
+    range: [Date | null, Date | null]
+  ): [Date | null, Date | null] =>
+    picker === "day"
+      ? range
+      : [range[0] && toStart(range[0]), range[1] && toEnd(range[1])]
+
+  // A draft can be committed once every end is either set or allowed to be
+  // empty, the ends are in order and the span rules hold.
+  const isCommittable = (range: [Date | null, Date | null]) => {
+    const [start, end] = range
+    if ((!start && !allowEmpty[0]) || (!end && !allowEmpty[1])) return false
+    return (
+      !start ||
+      !end ||
+      (!isAfter(toStart(start), toStart(end)) &&
+        !violatesRangeRules([start, end]))
+    )
+  }
+
+  const resetEditing = () => {
+    setHoveredDate(null)
+    setPresetPreview(null)
+    setInputTexts([null, null])
+  }
+
+  const closePanel = (reason: PickerOpenChangeReason) => {
+    setOpen(false, reason)
+    resetEditing()
+    setDraftRange(value)
+    focusField(activeField)
+  }
+
+  // Leaving the picker keeps a committable draft and drops anything else.
+  const finishEditing = () => {
+    if (!open && inputTexts.every((text) => text === null)) return
+    resetEditing()
+    const snapped = snapRange(draftRange)
+    if (isCommittable(snapped) && !isSameRange(snapped, value)) {
+      setDraftRange(snapped)
+      onChange(snapped)
+    } else {
+      setDraftRange(value)
+    }
+  }
+
+  // Hover styling is kept in state so re-renders don't wipe it.
+  const hoverHandlers = (button: string) => ({
+    onMouseEnter: () => setHoveredButton(button),
+    onMouseLeave: () => setHoveredButton(null),
+  })
+
+  const iconButtonStyle = (button: string, disabled: boolean) => ({
+    ...styles.iconButton,
+    ...(hoveredButton === button && !disabled ? styles.iconButtonHover : {}),
+    ...(disabled ? styles.iconButtonDisabled : {}),
+  })
 
-  const handleIconHover = (
-    event: React.MouseEvent<HTMLButtonElement>,
-    hovering: boolean
+  const commitRange = (
+    range: [Date | null, Date | null],
+    reason: PickerOpenChangeReason
   ) => {
-    event.currentTarget.style.backgroundColor = hovering
-      ? "rgba(64,150,255,0.08)"
-      : "transparent"
-    event.currentTarget.style.color = hovering ? "#1677ff" : "rgba(0,0,0,0.45)"
+    const snapped = snapRange(range)
+    setDraftRange(snapped)
+    onChange(snapped)
+    const anchor = snapped[0] ?? snapped[1]
+    if (anchor) {
+      setPanelMonth(anchor)
+    }
+    setOpen(false, reason)
+    resetEditing()
+    if (inline) {
+      setActiveField(0)
+    }
+    focusField(activeField)
   }
 
+  // Picking a day fills the active field. The range is committed once the
+  // other end is set too; otherwise the other field becomes active.
   const pickDay = (date: Date) => {
-    let [start, end] = draftRange
-    if (!start || (start && end)) {
-      start = date
-      end = null
-      setDraftRange([start, end])
-      setHoverDate(null)
+    const next = rangeWithPick(toStart(date), activeField)
+    const otherField: RangeField = activeField === 0 ? 1 : 0
+    if (next[otherField]) {
+      commitRange(next, "select")
       return
     }
-    if (!end) {
-      if (isBefore(date, start)) {
-        end = start
-        start = date
+    setDraftRange(next)
+    setHoveredDate(null)
+    setInputTexts([null, null])
+    setActiveField(otherField)
+  }
+
+  const handleInputChange = (
+    field: RangeField,
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const text = event.target.value
+    const nextTexts: [string | null, string | null] = [...inputTexts]
+    nextTexts[field] = text
+    setInputTexts(nextTexts)
+    setOpen(true, "trigger")
+    const parsed = text.trim() ? parseInput(text) : null
+    if (text.trim() && !parsed) return
+    const next: [Date | null, Date | null] = [...draftRange]
+    next[field] = parsed
+    setDraftRange(next)
+    if (parsed) {
+      setPanelMonth(parsed)
+      setActiveDate(parsed)
+    }
+  }
+
+  const handleInputKeyDown = (
+    field: RangeField,
+    event: React.KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      if (!open) {
+        openPanel(field, true)
+      } else if (isCommittable(draftRange)) {
+        commitRange(draftRange, "select")
+      } else if (!fieldInvalid[field]) {
+        const otherField: RangeField = field === 0 ? 1 : 0
+        setInputTexts([null, null])
+        setActiveField(otherField)
+        focusField(otherField)
+      }
+    }
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      if (open) {
+        calendar.focusActiveCell()
       } else {
-        end = date
+        openPanel(field, true)
       }
-      const nextRange: [Date, Date] = [start, end]
-      setDraftRange(nextRange)
-      onChange?.(nextRange)
-      setOpen(false)
-      setHoverDate(null)
+    }
+    if (event.key === "Escape" && open) {
+      closePanel("escape")
     }
   }
 
   const applyToday = () => {
-    const today = new Date()
-    const range: [Date, Date] = [today, today]
-    setDraftRange(range)
-    onChange?.(range)
-    setPanelMonth(today)
-    setOpen(false)
-    setHoverDate(null)
+    const day = startOfDay(zonedNow(i18n.timeZone))
+    if (isPresetDisabled([day, day])) return
+    commitRange([day, day], "today")
   }
 
-  const renderGrid = (matrix: Date[], month: Date) => {
-    const [start, end] = draftRange
-    const today = new Date()
-    let previewInterval: { start: Date; end: Date } | null = null
-    if (start && end) {
-      previewInterval =
-        isBefore(start, end) || isSameDay(start, end)
-          ? { start, end }
-          : { start: end, end: start }
-    } else if (start && hoverDate) {
-      previewInterval = isBefore(hoverDate, start)
-        ? { start: hoverDate, end: start }
-        : { start, end: hoverDate }
-    }
+  const isPresetDisabled = (range: [Date, Date]) =>
+    isPickDisabled(startOfDay(range[0])) ||
+    isPickDisabled(startOfDay(range[1])) ||
+    violatesRangeRules(range)
+
+  const previewPreset = (index: number) => {
+    const range = resolvePreset(presets![index], i18n.timeZone)
+    const restoreMonth = presetPreview?.restoreMonth ?? panelMonth
+    setPresetPreview({ index, range, restoreMonth })
+    setPanelMonth(
+      isVisibleFrom(restoreMonth, range[0]) ||
+        isVisibleFrom(restoreMonth, range[1])
+        ? restoreMonth
+        : range[0]
+    )
+  }
+
+  const endPresetPreview = () => {
+    if (!presetPreview) return
+    setPanelMonth(presetPreview.restoreMonth)
+    setPresetPreview(null)
+  }
+
+  const applyPreset = (index: number) => {
+    const range = resolvePreset(presets![index], i18n.timeZone)
+    if (isPresetDisabled(range)) return
+    commitRange(range, "select")
+  }
+
+  // A week-number click picks its row like a preset would.
+  const weekRange = (week: RangeCalendarCell[]): [Date, Date] => [
+    week[0].date,
+    week[week.length - 1].date,
+  ]
+
+  const cellRadius = (cell: RangeCalendarCell) =>
+    cell.rangeStart && cell.rangeEnd
+      ? themeVars.borderRadiusSM
+      : cell.rangeStart
+      ? `${themeVars.borderRadiusSM} 0 0 ${themeVars.borderRadiusSM}`
+      : cell.rangeEnd
+      ? `0 ${themeVars.borderRadiusSM} ${themeVars.borderRadiusSM} 0`
+      : themeVars.borderRadiusSM
+
+  const renderCellContent = (
+    cell: RangeCalendarCell,
+    originNode: React.ReactNode
+  ) =>
+    cellRender
+      ? cellRender(cell.date, {
+          type: picker === "week" ? "day" : picker,
+          selected: cell.rangeStart || cell.rangeEnd,
+          inRange: cell.inRange,
+          rangeStart: cell.rangeStart,
+          rangeEnd: cell.rangeEnd,
+          today: cell.today,
+          outside: !cell.inPanel,
+          disabled: cell.disabled,
+          originNode,
+        })
+      : originNode
+
+  const renderWeekNumber = (week: RangeCalendarCell[]) => {
+    const range = weekRange(week)
+    const disabled = isPresetDisabled(range)
+    const number = weekNumberOf(
+      range[0],
+      weekNumbering,
+      i18n.locale,
+      weekStartsOn
+    )
+    const button = `week-${range[0].getTime()}`
     return (
-      <>
-        <div style={styles.gridHead}>
-          {weekDays.map((d) => (
-            <div key={d} style={{ textAlign: "center" }}>
-              {d}
-            </div>
-          ))}
-        </div>
-        <div style={styles.grid}>
-          {matrix.map((d, index) => {
-            const inMonth = isSameMonth(d, month)
-            const isStart = start ? isSameDay(d, start) : false
-            const isEnd = end ? isSameDay(d, end) : false
-            const isBetween =
-              previewInterval && start
-                ? isWithinInterval(d, previewInterval)
-                : false
-            const isRange = isBetween && !isStart && !isEnd
-
-            const baseColor = inMonth ? "rgba(0,0,0,0.88)" : "rgba(0,0,0,0.25)"
-
-            const baseBtnStyle = {
-              ...styles.dayBtn,
-              backgroundColor: isRange
-                ? "rgba(64,150,255,0.12)"
-                : isStart || isEnd
-                ? "#1677ff"
-                : "transparent",
-              color:
-                isStart || isEnd
-                  ? "#fff"
-                  : isRange
-                  ? "rgba(0,0,0,0.88)"
+      <div role="rowheader">
+        <button
+          type="button"
+          tabIndex={-1}
+          aria-label={`${i18n.messages.weekNumber} ${number}`}
+          aria-disabled={disabled || undefined}
+          style={{
+            ...styles.weekNumberBtn,
+            ...(hoveredButton === button && !disabled
+              ? styles.weekNumberBtnHover
+              : {}),
+            ...(disabled ? styles.weekNumberBtnDisabled : {}),
+          }}
+          {...hoverHandlers(button)}
+          onClick={() => {
+            if (!disabled) commitRange(range, "select")
+          }}
+        >
+          {number}
+        </button>
+      </div>
+    )
+  }
+
+  const weekNumberColumns = showWeekNumber ? styles.weekNumberColumns : {}
+
+  const renderGrid = (panel: RangeCalendarPanel, labelId: string) => (
+    <div role="grid" aria-labelledby={labelId}>
+      <div role="row" style={{ ...styles.gridHead, ...weekNumberColumns }}>
+        {showWeekNumber && (
+          <div
+            role="columnheader"
+            aria-label={i18n.messages.weekNumber}
+            style={{ textAlign: "center" }}
+          >
+            #
+          </div>
+        )}
+        {weekDays.map((d, i) => (
+          <div key={i} role="columnheader" style={{ textAlign: "center" }}>
+            {d}
+          </div>
+        ))}
+      </div>
+      <div
+        role="rowgroup"
+        style={{ ...styles.grid, ...weekNumberColumns }}
+        {...calendar.getGridProps()}
+      >
+        {panel.rows.map((week, weekIndex) => (
+          <div key={weekIndex} role="row" style={styles.row}>
+            {showWeekNumber && renderWeekNumber(week)}
+            {week.map((day, index) => {
+              const isEnd = day.rangeStart || day.rangeEnd
+              const baseColor = day.inPanel
+                ? themeVars.colorText
+                : themeVars.colorTextDisabled
+
+              const baseBtnStyle = {
+                ...styles.dayBtn,
+                backgroundColor: day.hovered
+                  ? themeVars.colorPrimaryBgActive
+                  : day.inRange
+                  ? themeVars.colorPrimaryBg
+                  : isEnd
+                  ? themeVars.colorPrimary
+                  : "transparent",
+                color: isEnd
+                  ? themeVars.colorTextOnPrimary
+                  : day.inRange || day.hovered
+                  ? themeVars.colorText
                   : baseColor,
-              borderRadius:
-                isStart && isEnd
-                  ? 4
-                  : isStart
-                  ? "4px 0 0 4px"
+                borderRadius: cellRadius(day),
+                boxShadow: day.today
+                  ? `inset 0 0 0 1px ${themeVars.colorPrimaryHover}`
+                  : "none",
+                ...(day.disabled && !isEnd ? styles.dayBtnDisabled : {}),
+              } satisfies React.CSSProperties
+
+              return (
+                <button
+                  key={index}
+                  {...calendar.getCellProps(day)}
+                  aria-label={adapter.format(day.date, i18n.formats.dayLabel, {
+                    locale: i18n.locale,
+                  })}
+                  style={baseBtnStyle}
+                >
+                  {renderCellContent(day, adapter.format(day.date, "d"))}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+
+  const renderCellGrid = (panel: RangeCalendarPanel, labelId: string) => {
+    const cellLabel = (cell: Date) =>
+      picker === "month"
+        ? adapter.format(cell, i18n.formats.monthCell, { locale: i18n.locale })
+        : picker === "quarter"
+          ? adapter.format(cell, "QQQ", { locale: i18n.locale })
+          : String(adapter.getYear(cell))
+    return (
+      <div
+        role="grid"
+        aria-labelledby={labelId}
+        style={{
+          ...styles.cellGrid,
+          gridTemplateColumns: `repeat(${panel.rows[0].length}, 1fr)`,
+        }}
+        {...calendar.getGridProps()}
+      >
+        {panel.rows.map((row, rowIndex) => (
+          <div key={rowIndex} role="row" style={styles.row}>
+            {row.map((cell) => {
+              const isEnd = cell.rangeStart || cell.rangeEnd
+              const baseStyle = {
+                ...styles.cellBtn,
+                backgroundColor: cell.hovered
+                  ? themeVars.colorPrimaryBgActive
+                  : cell.inRange
+                  ? themeVars.colorPrimaryBg
                   : isEnd
-                  ? "0 4px 4px 0"
-                  : 4,
-              boxShadow: isSameDay(d, today)
-                ? "inset 0 0 0 1px #4096ff"
-                : "none",
-            } satisfies React.CSSProperties
-
-            return (
+                    ? themeVars.colorPrimary
+                    : "transparent",
+                color: isEnd
+                  ? themeVars.colorTextOnPrimary
+                  : cell.inPanel
+                    ? themeVars.colorText
+                    : themeVars.colorTextDisabled,
+                boxShadow: cell.today
+                  ? `inset 0 0 0 1px ${themeVars.colorPrimaryHover}`
+                  : "none",
+                ...(cell.disabled && !isEnd ? styles.dayBtnDisabled : {}),
+              } satisfies React.CSSProperties
+              return (
+                <button
+                  key={cell.date.getTime()}
+                  {...calendar.getCellProps(cell)}
+                  aria-label={adapter.format(
+                    cell.date,
+                    displayFormat,
+                    formatOptions
+                  )}
+                  style={baseStyle}
+                >
+                  {renderCellContent(cell, cellLabel(cell.date))}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const formatDate = (date: Date | null) =>
+    date ? adapter.format(date, displayFormat, formatOptions) : ""
+  const fieldPlaceholders = placeholder ?? [
+    i18n.messages.startDate,
+    i18n.messages.endDate,
+  ]
+  const fieldLabels = [i18n.messages.startDate, i18n.messages.endDate]
+  const fieldInvalid = inputTexts.map(
+    (text) => !!text?.trim() && !parseInput(text)
+  )
+  const inputInvalid =
+    fieldInvalid.some(Boolean) ||
+    (!!draftRange[0] && !!draftRange[1] && !isCommittable(draftRange))
+  const locked = disabled || readOnly
+
+  const todayDisabled = isPresetDisabled([
+    startOfDay(today),
+    startOfDay(today),
+  ])
+  const panelLabel = (panel: Date) =>
+    !cellPicker
+      ? adapter.format(panel, i18n.formats.monthHeader, { locale: i18n.locale })
+      : picker === "year"
+        ? `${adapter.getYear(panel)}–${adapter.getYear(panel) + 9}`
+        : String(adapter.getYear(panel))
+
+  // Shows the end being edited, or the other end, or today.
+  const preparePanel = (field: RangeField) => {
+    const initial = toStart(
+      draftRange[field] ?? draftRange[field === 0 ? 1 : 0] ?? today
+    )
+    calendar.showDate(initial)
+    setActiveField(field)
+    setPresetPreview(null)
+  }
+
+  const openPanel = (field: RangeField, focusGrid: boolean) => {
+    if (locked) return
+    preparePanel(field)
+    calendar.requestFocus(focusGrid)
+    setOpen(true, "trigger")
+  }
+
+  const renderPresets = () => {
+    const sidebar = presetsPlacement === "left"
+    return (
+      <ul
+        aria-label={i18n.messages.presets}
+        style={sidebar ? styles.presetSidebar : styles.presetFooter}
+        onMouseLeave={endPresetPreview}
+      >
+        {presets!.map((preset, index) => {
+          const disabled = isPresetDisabled(
+            resolvePreset(preset, i18n.timeZone)
+          )
+          const active = presetPreview?.index === index
+          return (
+            <li key={index}>
               <button
-                key={index}
-                style={baseBtnStyle}
-                onClick={() => pickDay(new Date(d))}
-                onMouseEnter={(event) => {
-                  if (start && !end) {
-                    setHoverDate(new Date(d))
-                  }
-                  if (!isStart && !isEnd) {
-                    event.currentTarget.style.backgroundColor =
-                      "rgba(64,150,255,0.16)"
-                    event.currentTarget.style.color = "rgba(0,0,0,0.88)"
-                  }
-                }}
-                onMouseLeave={(event) => {
-                  event.currentTarget.style.backgroundColor =
-                    baseBtnStyle.backgroundColor as string
-                  event.currentTarget.style.color = baseBtnStyle.color as string
-                  if (start && !end) {
-                    setHoverDate(null)
-                  }
+                type="button"
+                disabled={disabled}
+                style={{
+                  ...styles.presetBtn,
+                  ...(sidebar ? {} : styles.presetTag),
+                  ...(active ? styles.presetBtnActive : {}),
+                  ...(disabled ? styles.presetBtnDisabled : {}),
                 }}
+                onMouseEnter={() => !disabled && previewPreset(index)}
+                onFocus={() => !disabled && previewPreset(index)}
+                onBlur={endPresetPreview}
+                onClick={() => applyPreset(index)}
               >
-                {format(d, "d")}
+                {preset.label}
               </button>
-            )
-          })}
-        </div>
-      </>
+            </li>
+          )
+        })}
+      </ul>
     )
   }
 
-  const formattedStart = draftRange[0]
-    ? format(draftRange[0], "yyyy-MM-dd")
-    : ""
-  const formattedEnd = draftRange[1] ? format(draftRange[1], "yyyy-MM-dd") : ""
-
-  const openPanel = () => {
-    setOpen(true)
-    setHoverDate(null)
-  }
+  const hasPresets = !!presets && presets.length > 0
 
   return (
-    <div ref={containerRef} style={styles.container}>
-      <div
-        role="group"
-        tabIndex={0}
-        style={{
-          ...styles.input,
-          ...(open ? styles.inputActive : {}),
-        }}
-        onClick={() => (open ? setOpen(false) : openPanel())}
-      >
-        <span style={styles.icon} aria-hidden="true">
-          <svg
-            width="16"
-            height="16"
-            viewBox="0 0 1024 1024"
-            fill="currentColor"
-          >
-            <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
-          </svg>
-        </span>
-        <div style={styles.field}>
-          {formattedStart ? (
-            <span style={styles.value}>{formattedStart}</span>
-          ) : (
-            <span style={styles.placeholder}>{placeholder[0]}</span>
-          )}
-        </div>
-        <span style={styles.separator}>→</span>
-        <div style={styles.field}>
-          {formattedEnd ? (
-            <span style={styles.value}>{formattedEnd}</span>
-          ) : (
-            <span style={styles.placeholder}>{placeholder[1]}</span>
-          )}
-        </div>
-        <span style={styles.divider} aria-hidden="true" />
+    <div
+      ref={containerRef}
+      style={{
+        ...styles.container,
+        ...sizeVars,
+        ...(inline ? styles.containerInline : {}),
+      }}
+    >
+      {!inline && (
         <div
-          style={styles.suffix}
+          role="group"
+          aria-label={i18n.messages.rangePicker}
+          style={{
+            ...styles.input,
+            ...(size === "small" ? styles.inputSmall : {}),
+            ...(size === "large" ? styles.inputLarge : {}),
+            ...(open || focused ? styles.inputActive : {}),
+            ...(status === "warning" ? styles.inputWarning : {}),
+            ...(inputInvalid || status === "error" ? styles.inputError : {}),
+            ...(disabled ? styles.inputDisabled : {}),
+          }}
           onClick={(event) => {
-            event.stopPropagation()
+            const index = inputRefs.current.indexOf(
+              event.target as HTMLInputElement
+            )
+            const field = index === -1 ? activeField : (index as RangeField)
+            if (!open) {
+              openPanel(field, false)
+            }
+            focusField(field)
+          }}
+          onFocus={() => setFocused(true)}
+          onBlur={(event) => {
+            const next = event.relatedTarget as Node | null
+            if (contains(next)) return
+            setFocused(false)
+            // Pressing something in the popup that can't take focus leaves
+            // no related target either; presses outside an open popup are
+            // handled by onOutsideClick, so only tabbing away closes it here.
+            if (next || !open) {
+              setOpen(false, "outside")
+              finishEditing()
+            }
           }}
         >
-          {formattedStart || formattedEnd ? (
-            <button
-              type="button"
-              style={styles.clearButton}
-              onMouseDown={(event) => event.preventDefault()}
-              onClick={() => {
-                setDraftRange([null, null])
-                setHoverDate(null)
-                onChange?.([null, null])
-              }}
-              onMouseEnter={(event) => {
-                event.currentTarget.style.backgroundColor = "rgba(0,0,0,0.12)"
-                event.currentTarget.style.color = "rgba(0,0,0,0.65)"
-              }}
-              onMouseLeave={(event) => {
-                event.currentTarget.style.backgroundColor = "rgba(0,0,0,0.06)"
-                event.currentTarget.style.color = "rgba(0,0,0,0.45)"
-              }}
-              aria-label="clear range"
+          <span style={styles.icon} aria-hidden="true">
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 1024 1024"
+              fill="currentColor"
             >
-              ×
-            </button>
-          ) : null}
-        </div>
-      </div>
-      {open && (
-        <div style={styles.pop}>
-          {/* Left month */}
-          <div>
-            <div style={styles.header}>
+              <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
+            </svg>
+          </span>
+          {([0, 1] as const).map((field) => (
+            <React.Fragment key={field}>
+              {field === 1 && <span style={styles.separator}>→</span>}
+              <div style={styles.field}>
+                <input
+                  ref={(element) => {
+                    inputRefs.current[field] = element
+                  }}
+                  role="combobox"
+                  {...getTriggerProps()}
+                  aria-expanded={open && activeField === field}
+                  aria-label={fieldLabels[field]}
+                  aria-invalid={
+                    fieldInvalid[field] || status === "error" || undefined
+                  }
+                  disabled={disabled}
+                  readOnly={readOnly}
+                  autoComplete="off"
+                  style={{
+                    ...styles.textInput,
+                    ...(fieldInvalid[field] ? styles.textInputError : {}),
+                  }}
+                  value={inputTexts[field] ?? formatDate(draftRange[field])}
+                  placeholder={fieldPlaceholders[field]}
+                  onFocus={() => {
+                    if (activeField !== field) {
+                      setActiveField(field)
+                      setHoveredDate(null)
+                    }
+                  }}
+                  onChange={(event) => handleInputChange(field, event)}
+                  onKeyDown={(event) => handleInputKeyDown(field, event)}
+                />
+                {open && activeField === field && (
+                  <span style={styles.activeBar} aria-hidden="true" />
+                )}
+              </div>
+            </React.Fragment>
+          ))}
+          <span style={styles.divider} aria-hidden="true" />
+          <div
+            style={styles.suffix}
+            onClick={(event) => {
+              event.stopPropagation()
+            }}
+          >
+            {(draftRange[0] || draftRange[1]) && !locked ? (
               <button
                 type="button"
-                style={styles.iconButton}
-                onMouseEnter={(event) => handleIconHover(event, true)}
-                onMouseLeave={(event) => handleIconHover(event, false)}
-                onClick={() => {
-                  setPanelMonth(add(panelMonth, { years: -1 }))
+                style={{
+                  ...styles.clearButton,
+                  ...(hoveredButton === "clear" ? styles.clearButtonHover : {}),
                 }}
-                aria-label="previous year"
-              >
-                <span style={styles.iconGlyph}>«</span>
-              </button>
-              <button
-                type="button"
-                style={styles.iconButton}
-                onMouseEnter={(event) => handleIconHover(event, true)}
-                onMouseLeave={(event) => handleIconHover(event, false)}
+                onMouseDown={(event) => event.preventDefault()}
                 onClick={() => {
-                  setPanelMonth(add(panelMonth, { months: -1 }))
+                  setDraftRange([null, null])
+                  setHoveredDate(null)
+                  setHoveredButton(null)
+                  setInputTexts([null, null])
+                  onChange([null, null])
                 }}
-                aria-label="previous month"
+                {...hoverHandlers("clear")}
+                aria-label={i18n.messages.clearRange}
               >
-                <span style={styles.iconGlyph}>‹</span>
+                ×
               </button>
-              <div style={styles.headerLabel}>
-                {format(firstMonth, "MMMM yyyy")}
+            ) : null}
+          </div>
+        </div>
+      )}
+      {open &&
+        renderPopup(
+          <div
+            ref={calendar.gridRef}
+            role={inline ? "group" : "dialog"}
+            aria-label={i18n.messages.chooseRange}
+            style={{
+              ...styles.pop,
+              ...(hasPresets && presetsPlacement === "left"
+                ? styles.popWithSidebar
+                : {}),
+              ...(inline ? styles.popInline : {}),
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Escape" && !inline) {
+                event.stopPropagation()
+                closePanel("escape")
+              }
+            }}
+          >
+            {hasPresets && presetsPlacement === "left" && renderPresets()}
+
+            {/* Left panel */}
+            <div>
+              <div style={styles.header}>
+                <button
+                  {...calendar.getNavButtonProps("previousYear")}
+                  style={iconButtonStyle("previousYear", calendar.navigation.previousYear)}
+                  {...hoverHandlers("previousYear")}
+                  aria-label={
+                    picker === "year"
+                      ? i18n.messages.previousDecade
+                      : i18n.messages.previousYear
+                  }
+                >
+                  <span style={styles.iconGlyph}>«</span>
+                </button>
+                {!cellPicker && (
+                  <button
+                    {...calendar.getNavButtonProps("previousMonth")}
+                    style={iconButtonStyle("previousMonth", calendar.navigation.previousMonth)}
+                    {...hoverHandlers("previousMonth")}
+                    aria-label={i18n.messages.previousMonth}
+                  >
+                    <span style={styles.iconGlyph}>‹</span>
+                  </button>
+                )}
+                <div
+                  id={firstLabelId}
+                  style={styles.headerLabel}
+                  aria-live="polite"
+                >
+                  {panelLabel(calendar.panels[0].start)}
+                </div>
               </div>
+              {cellPicker
+                ? renderCellGrid(calendar.panels[0], firstLabelId)
+                : renderGrid(calendar.panels[0], firstLabelId)}
             </div>
-            {renderGrid(firstMatrix, firstMonth)}
-          </div>
 
-          {/* Right month */}
-          <div>
-            <div style={styles.header}>
-              <div style={{ flex: 1, textAlign: "center" }}>
-                {format(secondMonth, "MMMM yyyy")}
+            {/* Right panel */}
+            <div>
+              <div style={styles.header}>
+                <div id={secondLabelId} style={{ flex: 1, textAlign: "center" }}>
+                  {panelLabel(calendar.panels[1].start)}
+                </div>
+                {!cellPicker && (
+                  <button
+                    {...calendar.getNavButtonProps("nextMonth")}
+                    style={iconButtonStyle("nextMonth", calendar.navigation.nextMonth)}
+                    {...hoverHandlers("nextMonth")}
+                    aria-label={i18n.messages.nextMonth}
+                  >
+                    <span style={styles.iconGlyph}>›</span>
+                  </button>
+                )}
+                <button
+                  {...calendar.getNavButtonProps("nextYear")}
+                  style={iconButtonStyle("nextYear", calendar.navigation.nextYear)}
+                  {...hoverHandlers("nextYear")}
+                  aria-label={
+                    picker === "year"
+                      ? i18n.messages.nextDecade
+                      : i18n.messages.nextYear
+                  }
+                >
+                  <span style={styles.iconGlyph}>»</span>
+                </button>
               </div>
-              <button
-                type="button"
-                style={styles.iconButton}
-                onMouseEnter={(event) => handleIconHover(event, true)}
-                onMouseLeave={(event) => handleIconHover(event, false)}
-                onClick={() => {
-                  setPanelMonth(add(panelMonth, { months: 1 }))
-                }}
-                aria-label="next month"
-              >
-                <span style={styles.iconGlyph}>›</span>
-              </button>
-              <button
-                type="button"
-                style={styles.iconButton}
-                onMouseEnter={(event) => handleIconHover(event, true)}
-                onMouseLeave={(event) => handleIconHover(event, false)}
-                onClick={() => {
-                  setPanelMonth(add(panelMonth, { years: 1 }))
-                }}
-                aria-label="next year"
-              >
-                <span style={styles.iconGlyph}>»</span>
-              </button>
+              {cellPicker
+                ? renderCellGrid(calendar.panels[1], secondLabelId)
+                : renderGrid(calendar.panels[1], secondLabelId)}
             </div>
-            {renderGrid(secondMatrix, secondMonth)}
-          </div>
 
-          <div style={styles.footer} onClick={applyToday}>
-            Today
+            {hasPresets && presetsPlacement === "bottom" && renderPresets()}
+
+            <button
+              type="button"
+              disabled={todayDisabled}
+              style={{
+                ...styles.footer,
+                ...(todayDisabled ? styles.footerDisabled : {}),
+                ...(hasPresets && presetsPlacement === "left"
+                  ? { gridColumn: "2 / span 2" }
+                  : {}),
+              }}
+              onClick={applyToday}
+            >
+              {i18n.messages.today}
+            </button>
           </div>
-        </div>
-      )}
+        )}
+      {formField.renderInputs()}
     </div>
   )
 }
@@ -0,0 +1,642 @@
+import React, { useEffect, useId, useRef, useState } from "react"
+import { add, endOfWeek, format, isSameWeek, startOfDay } from "date-fns"
+import {
+  rowWeekStartsOn,
+  useCalendar,
+  usePickerField,
+  usePickerPopup,
+  weekNumberOf,
+  zonedNow,
+} from "../Calendar"
+import type {
+  CalendarDay,
+  CalendarNavigation,
+  PickerFieldName,
+  PickerOpenChangeReason,
+  PickerPopupProps,
+  PickerTriggerProps,
+  PickerValueProps,
+  UsePickerFieldOptions,
+  WeekNumbering,
+} from "../Calendar"
+import { useLocale } from "../LocaleProvider"
+import type { PickerLocaleProps } from "../LocaleProvider"
+import { themeVars } from "../ThemeProvider"
+
+export type DatePickerWeekNumbering = WeekNumbering
+
+export type DatePickerWeekSharedProps = PickerLocaleProps &
+  PickerPopupProps &
+  PickerTriggerProps & {
+    placeholder?: string
+    minDate?: Date
+    maxDate?: Date
+    /** A week is disabled when every one of its days is disabled. */
+    disabledDate?: (date: Date) => boolean
+    weekNumbering?: DatePickerWeekNumbering
+  }
+
+export type DatePickerWeekProps = DatePickerWeekSharedProps &
+  (
+    | ({
+        /** Emit the first day of the selected week. */
+        valueType?: "start"
+      } & PickerValueProps<Date | null, string>)
+    | ({
+        /** Emit the first and last day of the selected week. */
+        valueType: "range"
+      } & PickerValueProps<[Date, Date] | null, string, PickerFieldName>)
+  )
+
+type WeekValue = Date | [Date, Date] | null
+
+type FieldOptions = UsePickerFieldOptions<WeekValue, string, PickerFieldName>
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    position: "relative",
+    width: 320,
+    fontFamily: themeVars.fontFamily,
+    fontSize: themeVars.fontSize,
+    color: themeVars.colorText,
+  },
+  input: {
+    display: "flex",
+    alignItems: "center",
+    borderWidth: 1,
+    borderStyle: "solid",
+    borderColor: themeVars.colorBorder,
+    borderRadius: themeVars.borderRadius,
+    padding: "4px 12px",
+    background: themeVars.colorBgContainer,
+    height: 32,
+    cursor: "pointer",
+    transition: "border-color .3s, box-shadow .3s",
+    gap: 8,
+  },
+  inputActive: {
+    borderColor: themeVars.colorPrimaryHover,
+    boxShadow: `0 0 0 2px ${themeVars.colorPrimaryOutline}`,
+  },
+  inputError: {
+    borderColor: themeVars.colorError,
+    boxShadow: `0 0 0 2px ${themeVars.colorErrorOutline}`,
+  },
+  inputWarning: {
+    borderColor: themeVars.colorWarning,
+    boxShadow: `0 0 0 2px ${themeVars.colorWarningOutline}`,
+  },
+  inputSmall: {
+    height: 24,
+    padding: "0 8px",
+  },
+  inputLarge: {
+    height: 40,
+    padding: "6px 12px",
+  },
+  inputDisabled: {
+    borderColor: themeVars.colorBorder,
+    boxShadow: "none",
+    background: themeVars.colorFillDisabled,
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  icon: {
+    color: themeVars.colorTextTertiary,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  field: {
+    flex: 1,
+    minWidth: 0,
+    display: "flex",
+    alignItems: "center",
+  },
+  value: {
+    lineHeight: "22px",
+    whiteSpace: "nowrap",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  placeholder: {
+    color: themeVars.colorTextDisabled,
+    lineHeight: "22px",
+    whiteSpace: "nowrap",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  suffix: {
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+    color: themeVars.colorTextTertiary,
+  },
+  clearButton: {
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: 16,
+    height: 16,
+    borderRadius: "50%",
+    border: "none",
+    backgroundColor: themeVars.colorFill,
+    color: themeVars.colorTextTertiary,
+    cursor: "pointer",
+    fontSize: 12,
+    transition: "background-color .2s, color .2s",
+  },
+  clearButtonHover: {
+    backgroundColor: themeVars.colorFillHover,
+    color: themeVars.colorTextSecondary,
+  },
+  pop: {
+    background: themeVars.colorBgElevated,
+    border: `1px solid ${themeVars.colorBorderSecondary}`,
+    borderRadius: themeVars.borderRadiusLG,
+    width: 320,
+    boxShadow: themeVars.boxShadow,
+    padding: 16,
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    fontWeight: 500,
+  },
+  headerLabel: {
+    flex: 1,
+    textAlign: "center",
+    fontSize: 16,
+    color: themeVars.colorText,
+  },
+  iconButton: {
+    width: 24,
+    height: 24,
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+    border: "none",
+    backgroundColor: "transparent",
+    color: themeVars.colorTextTertiary,
+    borderRadius: themeVars.borderRadiusSM,
+    cursor: "pointer",
+    transition: "background-color .2s, color .2s",
+    padding: 0,
+    fontSize: 12,
+    lineHeight: "24px",
+  },
+  iconButtonHover: {
+    backgroundColor: themeVars.colorPrimaryBgHover,
+    color: themeVars.colorPrimary,
+  },
+  iconButtonDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  gridHead: {
+    display: "grid",
+    gridTemplateColumns: "32px repeat(7,1fr)",
+    marginBottom: 8,
+    fontSize: 12,
+    color: themeVars.colorTextTertiary,
+  },
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "32px repeat(7,1fr)",
+    columnGap: 0,
+    rowGap: 4,
+  },
+  row: {
+    display: "contents",
+  },
+  weekNumber: {
+    height: themeVars.cellSize,
+    lineHeight: themeVars.cellSize,
+    textAlign: "center",
+    fontSize: 12,
+    color: themeVars.colorTextTertiary,
+  },
+  dayBtn: {
+    width: "100%",
+    height: themeVars.cellSize,
+    padding: 0,
+    border: "none",
+    borderRadius: 0,
+    cursor: "pointer",
+    fontSize: themeVars.fontSize,
+    lineHeight: themeVars.cellSize,
+    transition: "background-color .2s, color .2s",
+  },
+  dayBtnDisabled: {
+    color: themeVars.colorTextDisabled,
+    cursor: "not-allowed",
+  },
+  rowStart: {
+    borderTopLeftRadius: themeVars.borderRadiusSM,
+    borderBottomLeftRadius: themeVars.borderRadiusSM,
+  },
+  rowEnd: {
+    borderTopRightRadius: themeVars.borderRadiusSM,
+    borderBottomRightRadius: themeVars.borderRadiusSM,
+  },
+}
+
+export const DatePickerWeek: React.FC<DatePickerWeekProps> = ({
+  valueType,
+  value: valueProp,
+  onChange: onChangeProp,
+  valueFormat,
+  name,
+  defaultValue,
+  required,
+  serialize,
+  ref,
+  placeholder,
+  minDate,
+  maxDate,
+  disabledDate,
+  weekNumbering = "locale",
+  open: openProp,
+  defaultOpen,
+  onOpenChange,
+  getPopupContainer,
+  disabled = false,
+  readOnly = false,
+  size = "middle",
+  status,
+  locale,
+  messages,
+  formats,
+  timeZone,
+  dateAdapter,
+}) => {
+  const i18n = useLocale({
+    locale,
+    messages,
+    formats,
+    timeZone,
+    dateAdapter,
+  })
+  const { adapter } = i18n
+  const iso = weekNumbering === "iso"
+  const weekStartsOn = rowWeekStartsOn(weekNumbering, i18n.weekStartsOn)
+  const triggerRef = useRef<HTMLDivElement | null>(null)
+  const formField = usePickerField<WeekValue, string, PickerFieldName>({
+    name,
+    defaultValue,
+    required,
+    serialize,
+    ref: ref as FieldOptions["ref"],
+    value: valueProp,
+    valueFormat,
+    timeZone: i18n.timeZone,
+    emptyValue: null,
+    onChange: onChangeProp as FieldOptions["onChange"],
+    formatText: (week) => {
+      const weekStart = Array.isArray(week) ? week[0] : week
+      return weekStart ? formatWeek(weekStart) : ""
+    },
+    toDates: (week) => {
+      if (Array.isArray(week)) return week
+      return valueType === "range" ? [null, null] : [week]
+    },
+    getFocusTarget: () => triggerRef.current,
+  })
+  // Both value shapes are reduced to the first day of the selected week,
+  // as a wall-clock date in the picker's time zone.
+  const value = Array.isArray(formField.value)
+    ? formField.value[0]
+    : formField.value
+  const today = zonedNow(i18n.timeZone)
+  const emitWeek = (weekStart: Date | null) => {
+    if (valueType === "range") {
+      formField.setValue(
+        weekStart ? [weekStart, endOfWeek(weekStart, { weekStartsOn })] : null
+      )
+    } else {
+      formField.setValue(weekStart)
+    }
+  }
+
+  const labelId = useId()
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const calendar = useCalendar({
+    weekStartsOn,
+    minDate,
+    maxDate,
+    isDateDisabled: disabledDate,
+    isDateSelected: (date) =>
+      !!value && isSameWeek(date, value, { weekStartsOn }),
+    defaultMonth: value,
+    today,
+    adapter,
+  })
+  const { setPanelMonth, setHoveredDate } = calendar
+  const {
+    containerRef,
+    open,
+    setOpen,
+    sizeVars,
+    getTriggerProps,
+    renderPopup,
+  } = usePickerPopup({
+    open: openProp,
+    defaultOpen,
+    onOpenChange,
+    getPopupContainer,
+    disabled,
+    readOnly,
+    size,
+    onOutsideClick: () => setHoveredDate(null),
+    onOpenSync: (isOpen) =>
+      isOpen
+        ? calendar.showDate(startOfDay(value ?? today))
+        : setHoveredDate(null),
+  })
+  const { month: panelMonth, weeks } = calendar.months[0]
+
+  useEffect(() => {
+    if (value) {
+      setPanelMonth(adapter.startOfMonth(value))
+    }
+  }, [value, setPanelMonth, adapter])
+
+  const formatWeek = (weekStart: Date) =>
+    adapter.format(weekStart, iso ? i18n.formats.isoWeek : i18n.formats.week, {
+      locale: i18n.locale,
+      weekStartsOn,
+      useAdditionalWeekYearTokens: true,
+    })
+
+  // A week can be picked unless every one of its days is disabled.
+  const isWeekDisabled = (week: CalendarDay[]) =>
+    week.every((day) => day.disabled)
+
+  const locked = disabled || readOnly
+
+  const openPanel = () => {
+    if (locked) return
+    calendar.showDate(startOfDay(value ?? today))
+    calendar.requestFocus()
+    setOpen(true, "trigger")
+  }
+
+  const closePanel = (reason: PickerOpenChangeReason) => {
+    setOpen(false, reason)
+    setHoveredDate(null)
+    triggerRef.current?.focus()
+  }
+
+  const selectWeek = (week: CalendarDay[]) => {
+    if (isWeekDisabled(week)) return
+    emitWeek(week[0].date)
+    closePanel("select")
+  }
+
+  const formattedValue = value ? formatWeek(value) : ""
+
+  // Hover styling is kept in state so re-renders don't wipe it.
+  const hoverHandlers = (button: string) => ({
+    onMouseEnter: () => setHoveredButton(button),
+    onMouseLeave: () => setHoveredButton(null),
+  })
+
+  const iconButtonStyle = (button: string, disabled: boolean) => ({
+    ...styles.iconButton,
+    ...(hoveredButton === button && !disabled ? styles.iconButtonHover : {}),
+    ...(disabled ? styles.iconButtonDisabled : {}),
+  })
+
+  const renderNavButton = (
+    glyph: string,
+    direction: keyof CalendarNavigation,
+    label: string
+  ) => (
+    <button
+      {...calendar.getNavButtonProps(direction)}
+      style={iconButtonStyle(label, calendar.navigation[direction])}
+      {...hoverHandlers(label)}
+      aria-label={label}
+    >
+      {glyph}
+    </button>
+  )
+
+  return (
+    <div ref={containerRef} style={{ ...styles.container, ...sizeVars }}>
+      <div
+        ref={triggerRef}
+        role="combobox"
+        tabIndex={disabled ? undefined : 0}
+        {...getTriggerProps()}
+        aria-label={i18n.messages.weekPicker}
+        aria-invalid={status === "error" || undefined}
+        style={{
+          ...styles.input,
+          ...(size === "small" ? styles.inputSmall : {}),
+          ...(size === "large" ? styles.inputLarge : {}),
+          ...(open ? styles.inputActive : {}),
+          ...(status === "warning" ? styles.inputWarning : {}),
+          ...(status === "error" ? styles.inputError : {}),
+          ...(disabled ? styles.inputDisabled : {}),
+        }}
+        onClick={() => (open ? closePanel("trigger") : openPanel())}
+        onKeyDown={(event) => {
+          // Keys pressed on the clear button are handled by the button itself.
+          if (event.target !== event.currentTarget) return
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault()
+            if (open) {
+              closePanel("trigger")
+            } else {
+              openPanel()
+            }
+          }
+          if (event.key === "ArrowDown" && !open) {
+            event.preventDefault()
+            openPanel()
+          }
+          if (event.key === "Escape") {
+            setOpen(false, "escape")
+            setHoveredDate(null)
+          }
+        }}
+      >
+        <span style={styles.icon} aria-hidden="true">
+          <svg
+            width="16"
+            height="16"
+            viewBox="0 0 1024 1024"
+            fill="currentColor"
+          >
+            <path d="M928 160h-64V96a32 32 0 1 0-64 0v64H224V96a32 32 0 1 0-64 0v64H96a32 32 0 0 0-32 32v672a64 64 0 0 0 64 64h768a64 64 0 0 0 64-64V192a32 32 0 0 0-32-32ZM160 224v96h704v-96h32v192H128V224h32Zm704 608H160a32 32 0 0 1-32-32V448h768v352a32 32 0 0 1-32 32Z" />
+          </svg>
+        </span>
+        <div style={styles.field}>
+          {formattedValue ? (
+            <span style={styles.value}>{formattedValue}</span>
+          ) : (
+            <span style={styles.placeholder}>
+              {placeholder ?? i18n.messages.selectWeek}
+            </span>
+          )}
+        </div>
+        <div style={styles.suffix}>
+          {value && !locked && (
+            <button
+              type="button"
+              style={{
+                ...styles.clearButton,
+                ...(hoveredButton === "clear" ? styles.clearButtonHover : {}),
+              }}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={(event) => {
+                event.stopPropagation()
+                emitWeek(null)
+                setHoveredDate(null)
+                setHoveredButton(null)
+              }}
+              {...hoverHandlers("clear")}
+              aria-label={i18n.messages.clearWeek}
+            >
+              ×
+            </button>
+          )}
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 1024 1024"
+            fill="currentColor"
+            aria-hidden="true"
+          >
+            <path d="m512 672 320-320-60.8-60.8L512 550.4 252.8 291.2 192 352z" />
+          </svg>
+        </div>
+      </div>
+
+      {open &&
+        renderPopup(
+          <div
+            role="dialog"
+            aria-label={i18n.messages.chooseWeek}
+            style={styles.pop}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") {
+                event.stopPropagation()
+                closePanel("escape")
+              }
+            }}
+          >
+            <div style={styles.header}>
+              {renderNavButton("«", "previousYear", i18n.messages.previousYear)}
+              {renderNavButton(
+                "‹",
+                "previousMonth",
+                i18n.messages.previousMonth
+              )}
+              <div id={labelId} style={styles.headerLabel} aria-live="polite">
+                {adapter.format(panelMonth, i18n.formats.monthHeader, {
+                  locale: i18n.locale,
+                })}
+              </div>
+              {renderNavButton("›", "nextMonth", i18n.messages.nextMonth)}
+              {renderNavButton("»", "nextYear", i18n.messages.nextYear)}
+            </div>
+
+            <div role="grid" aria-labelledby={labelId}>
+              <div role="row" style={styles.gridHead}>
+                <div
+                  role="columnheader"
+                  aria-label={i18n.messages.weekNumber}
+                  style={{ textAlign: "center" }}
+                >
+                  #
+                </div>
+                {Array.from({ length: 7 }, (_, i) => (
+                  <div key={i} role="columnheader" style={{ textAlign: "center" }}>
+                    {format(add(weeks[0][0].date, { days: i }), i18n.formats.weekDay, {
+                      locale: i18n.locale,
+                    })}
+                  </div>
+                ))}
+              </div>
+
+              <div
+                ref={calendar.gridRef}
+                role="rowgroup"
+                style={styles.grid}
+                {...calendar.getGridProps()}
+              >
+                {weeks.map((week) => {
+                  const weekStart = week[0].date
+                  const selected = week[0].selected
+                  const hovered =
+                    !!calendar.hoveredDate &&
+                    isSameWeek(calendar.hoveredDate, weekStart, { weekStartsOn })
+                  const disabled = isWeekDisabled(week)
+                  return (
+                    <div
+                      key={weekStart.getTime()}
+                      role="row"
+                      aria-selected={selected}
+                      aria-disabled={disabled || undefined}
+                      aria-label={formatWeek(weekStart)}
+                      style={styles.row}
+                    >
+                      <div role="rowheader" style={styles.weekNumber}>
+                        {weekNumberOf(
+                          weekStart,
+                          weekNumbering,
+                          i18n.locale,
+                          weekStartsOn
+                        )}
+                      </div>
+                      {week.map((day, i) => {
+                        const dayStyle: React.CSSProperties = {
+                          ...styles.dayBtn,
+                          ...(i === 0 ? styles.rowStart : {}),
+                          ...(i === week.length - 1 ? styles.rowEnd : {}),
+                          backgroundColor: selected
+                            ? themeVars.colorPrimary
+                            : hovered && !disabled
+                              ? themeVars.colorPrimaryBgHover
+                              : "transparent",
+                          color: selected
+                            ? themeVars.colorTextOnPrimary
+                            : day.inMonth
+                              ? themeVars.colorText
+                              : themeVars.colorTextDisabled,
+                          ...(disabled && !selected ? styles.dayBtnDisabled : {}),
+                        }
+                        // Any day of the row picks the whole week, so the
+                        // disabled state and the click belong to the row.
+                        return (
+                          <button
+                            key={i}
+                            {...calendar.getDayProps(day)}
+                            aria-disabled={disabled || undefined}
+                            aria-label={adapter.format(day.date, i18n.formats.dayLabel, {
+                              locale: i18n.locale,
+                            })}
+                            style={dayStyle}
+                            onClick={() => selectWeek(week)}
+                          >
+                            {adapter.format(day.date, "d")}
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      {formField.renderInputs()}
+    </div>
+  )
+}
+
+export default DatePickerWeek
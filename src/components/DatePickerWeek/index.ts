@@ -0,0 +1,2 @@
+export { DatePickerWeek as default } from "./DatePickerWeek"
+export * from "./DatePickerWeek"
@@ -0,0 +1,33 @@
+import React, { useContext, useMemo } from "react"
+import { LocaleContext } from "./locale"
+import type { PickerLocaleProps } from "./locale"
+
+export type LocaleProviderProps = PickerLocaleProps & {
+  children?: React.ReactNode
+}
+
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({
+  locale,
+  messages,
+  formats,
+  timeZone,
+  dateAdapter,
+  children,
+}) => {
+  const parent = useContext(LocaleContext)
+  const value = useMemo<PickerLocaleProps>(
+    () => ({
+      locale: locale ?? parent.locale,
+      messages: { ...parent.messages, ...messages },
+      formats: { ...parent.formats, ...formats },
+      timeZone: timeZone ?? parent.timeZone,
+      dateAdapter: dateAdapter ?? parent.dateAdapter,
+    }),
+    [locale, messages, formats, timeZone, dateAdapter, parent]
+  )
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  )
+}
+
+export default LocaleProvider
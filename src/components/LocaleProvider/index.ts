@@ -0,0 +1,3 @@
+export { LocaleProvider as default } from "./LocaleProvider"
+export * from "./LocaleProvider"
+export * from "./locale"
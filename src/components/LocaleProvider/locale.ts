@@ -0,0 +1,204 @@
+import { createContext, useContext, useMemo } from "react"
+import { add, format, startOfWeek } from "date-fns"
+import type { Day, Locale } from "date-fns"
+import { enUS } from "date-fns/locale"
+import { gregorianAdapter } from "../Calendar"
+import type { DateAdapter } from "../Calendar"
+
+export type PickerMessages = {
+  today: string
+  now: string
+  ok: string
+  hours: string
+  minutes: string
+  seconds: string
+  meridiem: string
+  selectDate: string
+  selectMonth: string
+  selectWeek: string
+  selectQuarter: string
+  startDate: string
+  endDate: string
+  datePicker: string
+  rangePicker: string
+  monthPicker: string
+  weekPicker: string
+  quarterPicker: string
+  chooseDate: string
+  chooseRange: string
+  chooseMonth: string
+  chooseWeek: string
+  chooseQuarter: string
+  chooseYear: string
+  chooseDecade: string
+  previousYear: string
+  nextYear: string
+  previousDecade: string
+  nextDecade: string
+  previousCentury: string
+  nextCentury: string
+  previousMonth: string
+  nextMonth: string
+  clearDate: string
+  clearRange: string
+  clearMonth: string
+  clearWeek: string
+  clearQuarter: string
+  removeDate: string
+  presets: string
+  weekNumber: string
+}
+
+/** date-fns format strings used by the pickers. */
+export type PickerFormats = {
+  /** Value shown in the DatePickerBase and DatePickerRange triggers. */
+  date: string
+  /** Value shown in the DatePickerMonth trigger. */
+  month: string
+  /** Week value, e.g. "2026-W42". Formatted with week-year tokens enabled. */
+  week: string
+  /** Week value under ISO-8601 numbering, e.g. "2026-W42". */
+  isoWeek: string
+  /** Quarter value, e.g. "2026-Q3". */
+  quarter: string
+  /** Year value. */
+  year: string
+  /** Panel header above a day grid. */
+  monthHeader: string
+  /** Month cell in the DatePickerMonth grid. */
+  monthCell: string
+  /** Weekday column header. */
+  weekDay: string
+  /** Accessible label of a day cell. */
+  dayLabel: string
+}
+
+export type PickerLocaleProps = {
+  locale?: Locale
+  messages?: Partial<PickerMessages>
+  formats?: Partial<PickerFormats>
+  /**
+   * IANA time zone, e.g. "America/New_York", to show values in and take
+   * "today" from. Picked dates are emitted as midnight, or the picked time,
+   * in that zone. `minDate`, `maxDate` and `disabledDate` apply to the dates
+   * as shown. Defaults to the browser's zone.
+   */
+  timeZone?: string
+  /**
+   * Calendar the grids and formats follow, e.g. `persianAdapter`. Values
+   * stay `Date`s. Defaults to the Gregorian calendar.
+   */
+  dateAdapter?: DateAdapter
+}
+
+export const defaultMessages: PickerMessages = {
+  today: "Today",
+  now: "Now",
+  ok: "OK",
+  hours: "hours",
+  minutes: "minutes",
+  seconds: "seconds",
+  meridiem: "AM/PM",
+  selectDate: "Select date",
+  selectMonth: "Select month",
+  selectWeek: "Select week",
+  selectQuarter: "Select quarter",
+  startDate: "Start date",
+  endDate: "End date",
+  datePicker: "Date picker",
+  rangePicker: "Date range picker",
+  monthPicker: "Month picker",
+  weekPicker: "Week picker",
+  quarterPicker: "Quarter picker",
+  chooseDate: "Choose date",
+  chooseRange: "Choose date range",
+  chooseMonth: "Choose month",
+  chooseWeek: "Choose week",
+  chooseQuarter: "Choose quarter",
+  chooseYear: "Choose year",
+  chooseDecade: "Choose decade",
+  previousYear: "previous year",
+  nextYear: "next year",
+  previousDecade: "previous decade",
+  nextDecade: "next decade",
+  previousCentury: "previous century",
+  nextCentury: "next century",
+  previousMonth: "previous month",
+  nextMonth: "next month",
+  clearDate: "clear date",
+  clearRange: "clear range",
+  clearMonth: "clear month",
+  clearWeek: "clear week",
+  clearQuarter: "clear quarter",
+  removeDate: "remove",
+  presets: "Quick ranges",
+  weekNumber: "Week",
+}
+
+export const defaultFormats: PickerFormats = {
+  date: "yyyy-MM-dd",
+  month: "LLLL yyyy",
+  week: "YYYY-'W'ww",
+  isoWeek: "RRRR-'W'II",
+  quarter: "yyyy-'Q'Q",
+  year: "yyyy",
+  monthHeader: "LLLL yyyy",
+  monthCell: "LLL",
+  weekDay: "EEEEEE",
+  dayLabel: "PPPP",
+}
+
+export const LocaleContext = createContext<PickerLocaleProps>({})
+
+export type ResolvedLocale = {
+  locale: Locale
+  messages: PickerMessages
+  formats: PickerFormats
+  weekStartsOn: Day
+  weekDays: string[]
+  /** Undefined for the browser's own zone. */
+  timeZone?: string
+  adapter: DateAdapter
+}
+
+/**
+ * Merges the locale props of a picker over the nearest LocaleProvider.
+ * Without any locale the trigger keeps the ISO date format; once one is
+ * configured it switches to that locale's short date pattern (`P`).
+ */
+export function useLocale(props: PickerLocaleProps): ResolvedLocale {
+  const context = useContext(LocaleContext)
+  const customLocale = props.locale ?? context.locale
+  const locale = customLocale ?? enUS
+  const weekStartsOn = locale.options?.weekStartsOn ?? 0
+
+  const messages = useMemo(
+    () => ({ ...defaultMessages, ...context.messages, ...props.messages }),
+    [context.messages, props.messages]
+  )
+  const formats = useMemo(
+    () => ({
+      ...defaultFormats,
+      ...(customLocale ? { date: "P" } : {}),
+      ...context.formats,
+      ...props.formats,
+    }),
+    [customLocale, context.formats, props.formats]
+  )
+  const weekDays = useMemo(() => {
+    const start = startOfWeek(new Date(), { weekStartsOn })
+    return Array.from({ length: 7 }, (_, i) =>
+      format(add(start, { days: i }), formats.weekDay, { locale })
+    )
+  }, [locale, weekStartsOn, formats.weekDay])
+
+  return {
+    locale,
+    messages,
+    formats,
+    weekStartsOn,
+    weekDays,
+    timeZone: props.timeZone ?? context.timeZone,
+    adapter: props.dateAdapter ?? context.dateAdapter ?? gregorianAdapter,
+  }
+}
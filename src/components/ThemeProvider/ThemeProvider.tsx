@@ -0,0 +1,32 @@
+import React, { useContext, useMemo } from "react"
+import { ThemeContext, themeCssVars } from "./theme"
+import type { PickerTheme } from "./theme"
+
+export type ThemeProviderProps = {
+  /** Tokens to override, e.g. `darkTheme` or `{ colorPrimary: "#722ed1" }`. */
+  theme?: Partial<PickerTheme>
+  children?: React.ReactNode
+}
+
+/**
+ * Sets the theme tokens as CSS custom properties on a `display: contents`
+ * wrapper, so every picker below it picks them up without re-rendering.
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({
+  theme,
+  children,
+}) => {
+  const parent = useContext(ThemeContext)
+  const value = useMemo(() => ({ ...parent, ...theme }), [parent, theme])
+  const style = useMemo<React.CSSProperties>(
+    () => ({ display: "contents", ...themeCssVars(value) }),
+    [value]
+  )
+  return (
+    <ThemeContext.Provider value={value}>
+      <div style={style}>{children}</div>
+    </ThemeContext.Provider>
+  )
+}
+
+export default ThemeProvider
@@ -0,0 +1,3 @@
+export { ThemeProvider as default } from "./ThemeProvider"
+export * from "./ThemeProvider"
+export * from "./theme"
@@ -0,0 +1,153 @@
+import { createContext, useContext } from "react"
+import type React from "react"
+
+/** Design tokens shared by all pickers. */
+export type PickerTheme = {
+  /** Selected cells, links and the primary button. */
+  colorPrimary: string
+  /** Focused trigger border and the "today" ring. */
+  colorPrimaryHover: string
+  /** Focus ring around the active trigger. */
+  colorPrimaryOutline: string
+  /** In-range cells, hovered month cells and the active preset. */
+  colorPrimaryBg: string
+  /** Hovered day cells and header buttons. */
+  colorPrimaryBgHover: string
+  /** Hovered cell inside a range. */
+  colorPrimaryBgActive: string
+  /** Text on top of `colorPrimary`. */
+  colorTextOnPrimary: string
+  colorText: string
+  colorTextSecondary: string
+  /** Icons, week days and other muted text. */
+  colorTextTertiary: string
+  /** Placeholders, disabled cells and days outside the panel month. */
+  colorTextDisabled: string
+  /** Trigger background. */
+  colorBgContainer: string
+  /** Popup background. */
+  colorBgElevated: string
+  /** Clear button and tag background. */
+  colorFill: string
+  colorFillHover: string
+  /** Background of disabled cells. */
+  colorFillDisabled: string
+  /** Trigger border. */
+  colorBorder: string
+  /** Popup border and the dividers inside it. */
+  colorBorderSecondary: string
+  colorError: string
+  colorErrorOutline: string
+  /** Trigger border with `status="warning"`. */
+  colorWarning: string
+  colorWarningOutline: string
+  /** Popup shadow. */
+  boxShadow: string
+  fontFamily: string
+  /** px */
+  fontSize: number
+  /** Trigger and month cells, in px. */
+  borderRadius: number
+  /** Day cells and small buttons, in px. */
+  borderRadiusSM: number
+  /** Popup, in px. */
+  borderRadiusLG: number
+  /** Height of a day cell, in px. */
+  cellSize: number
+  zIndexPopup: number
+}
+
+export const defaultTheme: PickerTheme = {
+  colorPrimary: "#1677ff",
+  colorPrimaryHover: "#4096ff",
+  colorPrimaryOutline: "rgba(24, 144, 255, 0.2)",
+  colorPrimaryBg: "rgba(64,150,255,0.12)",
+  colorPrimaryBgHover: "rgba(64,150,255,0.08)",
+  colorPrimaryBgActive: "rgba(64,150,255,0.16)",
+  colorTextOnPrimary: "#fff",
+  colorText: "rgba(0,0,0,0.88)",
+  colorTextSecondary: "rgba(0,0,0,0.65)",
+  colorTextTertiary: "rgba(0,0,0,0.45)",
+  colorTextDisabled: "rgba(0,0,0,0.25)",
+  colorBgContainer: "#fff",
+  colorBgElevated: "#fff",
+  colorFill: "rgba(0,0,0,0.06)",
+  colorFillHover: "rgba(0,0,0,0.12)",
+  colorFillDisabled: "rgba(0,0,0,0.04)",
+  colorBorder: "#d9d9d9",
+  colorBorderSecondary: "#f0f0f0",
+  colorError: "#ff4d4f",
+  colorErrorOutline: "rgba(255, 38, 5, 0.06)",
+  colorWarning: "#faad14",
+  colorWarningOutline: "rgba(255, 215, 5, 0.1)",
+  boxShadow: "0 6px 16px rgba(0,0,0,.08)",
+  fontFamily:
+    '-apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", sans-serif',
+  fontSize: 14,
+  borderRadius: 6,
+  borderRadiusSM: 4,
+  borderRadiusLG: 8,
+  cellSize: 32,
+  zIndexPopup: 1050,
+}
+
+export const darkTheme: PickerTheme = {
+  ...defaultTheme,
+  colorPrimary: "#1668dc",
+  colorPrimaryHover: "#3c89e8",
+  colorPrimaryOutline: "rgba(60, 137, 232, 0.3)",
+  colorPrimaryBg: "rgba(22,104,220,0.3)",
+  colorPrimaryBgHover: "rgba(22,104,220,0.2)",
+  colorPrimaryBgActive: "rgba(22,104,220,0.4)",
+  colorTextOnPrimary: "#fff",
+  colorText: "rgba(255,255,255,0.85)",
+  colorTextSecondary: "rgba(255,255,255,0.65)",
+  colorTextTertiary: "rgba(255,255,255,0.45)",
+  colorTextDisabled: "rgba(255,255,255,0.25)",
+  colorBgContainer: "#141414",
+  colorBgElevated: "#1f1f1f",
+  colorFill: "rgba(255,255,255,0.12)",
+  colorFillHover: "rgba(255,255,255,0.18)",
+  colorFillDisabled: "rgba(255,255,255,0.08)",
+  colorBorder: "#424242",
+  colorBorderSecondary: "#303030",
+  colorError: "#dc4446",
+  colorErrorOutline: "rgba(238, 38, 56, 0.11)",
+  colorWarning: "#d89614",
+  colorWarningOutline: "rgba(173, 107, 0, 0.15)",
+  boxShadow: "0 6px 16px rgba(0,0,0,.32)",
+}
+
+const cssVarName = (token: string) =>
+  `--dp-${token.replace(/[A-Z]+/g, (upper) => `-${upper.toLowerCase()}`)}`
+
+const cssVarValue = (token: keyof PickerTheme, value: string | number) =>
+  typeof value === "number" && token !== "zIndexPopup" ? `${value}px` : value
+
+/**
+ * `var(--dp-…)` references for every token, falling back to the default
+ * theme so the pickers render the same without a ThemeProvider.
+ */
+export const themeVars = Object.fromEntries(
+  Object.entries(defaultTheme).map(([token, value]) => [
+    token,
+    `var(${cssVarName(token)}, ${cssVarValue(token as keyof PickerTheme, value)})`,
+  ])
+) as Record<keyof PickerTheme, string>
+
+/** Custom properties that apply `theme` to everything below an element. */
+export function themeCssVars(theme: Partial<PickerTheme>): React.CSSProperties {
+  return Object.fromEntries(
+    Object.entries(theme).map(([token, value]) => [
+      cssVarName(token),
+      cssVarValue(token as keyof PickerTheme, value),
+    ])
+  )
+}
+
+export const ThemeContext = createContext<Partial<PickerTheme>>({})
+
+/** The tokens set by the enclosing ThemeProviders, merged over the defaults. */
+export function useTheme(): PickerTheme {
+  return { ...defaultTheme, ...useContext(ThemeContext) }
+}